@@ -0,0 +1,7 @@
+import type { NextRequest } from "next/server"
+import { PROXY_TTL, forwardedQuery, proxySefaria } from "@/lib/sefaria-server"
+
+// Learning schedules for today, or for ?year=&month=&day=
+export async function GET(req: NextRequest) {
+  return proxySefaria(`calendars${forwardedQuery(req.nextUrl.searchParams)}`, PROXY_TTL.calendars)
+}
@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { errorResponse } from "@/lib/api-error"
+import type { GraphData } from "@/lib/graph"
+import { runGraphQuery } from "@/lib/neo4j"
+
+// The driver needs Node APIs
+export const runtime = "nodejs"
+
+// Run one of the allow-listed graph queries, e.g. /api/graph/connections?id=Genesis%201:1
+export async function GET(req: NextRequest, { params }: { params: { query: string } }) {
+  try {
+    const queryParams = Object.fromEntries(req.nextUrl.searchParams.entries())
+    const data: GraphData = await runGraphQuery(params.query, queryParams)
+    return NextResponse.json(data)
+  } catch (error) {
+    return errorResponse(error, "[graph]")
+  }
+}
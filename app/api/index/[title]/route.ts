@@ -0,0 +1,9 @@
+import { PROXY_TTL, proxySefaria } from "@/lib/sefaria-server"
+
+// Index record for one book, with content counts and related topics
+export async function GET(_req: Request, { params }: { params: { title: string } }) {
+  return proxySefaria(
+    `v2/index/${encodeURIComponent(params.title)}?with_content_counts=1&with_related_topics=1`,
+    PROXY_TTL.bookIndex
+  )
+}
@@ -0,0 +1,9 @@
+import { PROXY_TTL, proxySefaria } from "@/lib/sefaria-server"
+
+// Cached in process rather than prerendered at build time
+export const dynamic = "force-dynamic"
+
+// Library table of contents
+export async function GET() {
+  return proxySefaria("index", PROXY_TTL.index)
+}
@@ -0,0 +1,10 @@
+import type { NextRequest } from "next/server"
+import { PROXY_TTL, forwardedQuery, proxySefaria } from "@/lib/sefaria-server"
+
+// Texts that link to a ref
+export async function GET(req: NextRequest, { params }: { params: { ref: string } }) {
+  return proxySefaria(
+    `links/${encodeURIComponent(params.ref)}${forwardedQuery(req.nextUrl.searchParams)}`,
+    PROXY_TTL.links
+  )
+}
@@ -0,0 +1,7 @@
+import type { NextRequest } from "next/server"
+import { PROXY_TTL, proxySefaria } from "@/lib/sefaria-server"
+
+// Links, sheets, topics and media related to a ref
+export async function GET(_req: NextRequest, { params }: { params: { ref: string } }) {
+  return proxySefaria(`related/${encodeURIComponent(params.ref)}`, PROXY_TTL.related)
+}
@@ -0,0 +1,33 @@
+import type { NextRequest } from "next/server"
+import { NextResponse } from "next/server"
+import { ApiError, errorResponse } from "@/lib/api-error"
+import { PROXY_TTL, fetchSefaria } from "@/lib/sefaria-server"
+import { parseSefariaSearchResponse, searchQueryFromParams, sefariaSearchBody } from "@/lib/search"
+
+// Full-text search through Sefaria's search API, with our query parameters
+// (q, mode, lang, path, book, page, size; see lib/search.ts) and result shape
+export async function GET(req: NextRequest) {
+  try {
+    const query = searchQueryFromParams(req.nextUrl.searchParams)
+    if (!query.text) throw new ApiError(400, "Missing search query")
+
+    // Sefaria filters on full category paths, so a book needs its categories
+    let bookPath: string | undefined
+    if (query.book) {
+      const index = await fetchSefaria(
+        `v2/index/${encodeURIComponent(query.book)}?with_content_counts=1&with_related_topics=1`,
+        PROXY_TTL.bookIndex
+      )
+      const categories: string[] = Array.isArray(index?.categories) ? index.categories : []
+      bookPath = [...categories, index?.title || query.book].join("/")
+    }
+
+    const data = await fetchSefaria("search-wrapper", PROXY_TTL.search, sefariaSearchBody(query, bookPath))
+    const maxAge = Math.floor(PROXY_TTL.search / 1000)
+    return NextResponse.json(parseSefariaSearchResponse(data, query), {
+      headers: { "Cache-Control": `public, s-maxage=${maxAge}, stale-while-revalidate=${maxAge}` },
+    })
+  } catch (error) {
+    return errorResponse(error, "[search]")
+  }
+}
@@ -0,0 +1,14 @@
+import type { NextRequest } from "next/server"
+import { PROXY_TTL, forwardedQuery, proxySefaria } from "@/lib/sefaria-server"
+
+// Text of a ref from the v3 texts API (e.g. ?version=hebrew&version=translation).
+// `?api=v1` selects the legacy texts API used by SefariaAPI.getText, with its
+// lang/commentary/context parameters forwarded as given.
+export async function GET(req: NextRequest, { params }: { params: { ref: string } }) {
+  const { searchParams } = req.nextUrl
+  const endpoint = searchParams.get("api") === "v1" ? "texts" : "v3/texts"
+  return proxySefaria(
+    `${endpoint}/${encodeURIComponent(params.ref)}${forwardedQuery(searchParams, ["api"])}`,
+    PROXY_TTL.text
+  )
+}
@@ -31,7 +31,7 @@ export default function CalendarsPage() {
         const m = params.get("month");
         const d = params.get("day");
         const qs = y && m && d ? `?year=${y}&month=${m}&day=${d}` : "";
-        const res = await fetch(`https://www.sefaria.org/api/calendars${qs}`, { cache: "no-store" });
+        const res = await fetch(`/api/calendars${qs}`, { cache: "no-store" });
         if (!res.ok) throw new Error(`Failed to load calendars: ${res.status}`);
         const data = await res.json();
         setItems(Array.isArray(data?.calendar_items) ? data.calendar_items : []);
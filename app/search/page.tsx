@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Search, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { PageHeader } from "@/components/page-header";
+import {
+  MAX_RESULT_WINDOW,
+  getSearchBackend,
+  hitPath,
+  queryLanguage,
+  searchQueryFromParams,
+  searchUrl,
+  type SearchLanguage,
+  type SearchMode,
+  type SearchQuery,
+  type SearchResults,
+} from "@/lib/search";
+
+// Page numbers to offer around the current page; null marks a gap
+function pageWindow(page: number, pages: number): Array<number | null> {
+  const wanted = new Set([1, pages, page - 1, page, page + 1].filter(p => p >= 1 && p <= pages));
+  const sorted = Array.from(wanted).sort((a, b) => a - b);
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+}
+
+export default function SearchPage() {
+  const params = useSearchParams();
+  const router = useRouter();
+  const query = searchQueryFromParams(new URLSearchParams(params.toString()));
+  const queryKey = params.toString();
+
+  const [text, setText] = useState(query.text);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(query.text);
+    if (!query.text) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const run = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getSearchBackend().search(query);
+        if (!cancelled) setResults(data);
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || "Search failed");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    run();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryKey]);
+
+  // Navigate to a variation of the current query; filters reset the page
+  const go = (changes: Partial<SearchQuery>) => {
+    router.push(searchUrl({ ...query, page: 1, ...changes, text: changes.text ?? query.text }));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (text.trim()) go({ text: text.trim() });
+  };
+
+  const pages = results
+    ? Math.max(1, Math.min(Math.ceil(results.total / results.pageSize), Math.floor(MAX_RESULT_WINDOW / results.pageSize)))
+    : 1;
+  const pathSegments = query.path ? query.path.split("/") : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <main className="max-w-[84rem] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <PageHeader title="Search" hebrewTitle="חיפוש" movable={false} />
+
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-3 mb-6">
+          <div className="relative flex-1 min-w-[16rem]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+            <Input
+              type="search"
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder="Search in Hebrew or English..."
+              className="pl-10 bg-white"
+              dir={queryLanguage(text) === "he" ? "rtl" : "ltr"}
+            />
+          </div>
+          <Select value={query.mode} onValueChange={v => go({ mode: v as SearchMode })}>
+            <SelectTrigger className="w-40 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="prefix">Word prefixes</SelectItem>
+              <SelectItem value="exact">Exact phrase</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={query.language} onValueChange={v => go({ language: v as SearchLanguage })}>
+            <SelectTrigger className="w-36 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All languages</SelectItem>
+              <SelectItem value="he">Hebrew</SelectItem>
+              <SelectItem value="en">English</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button type="submit">Search</Button>
+        </form>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          {/* Filters */}
+          <aside className="space-y-6">
+            <div>
+              <h2 className="text-sm font-semibold text-slate-900 mb-2">Category</h2>
+              <div className="flex flex-wrap items-center gap-1 text-sm mb-3">
+                <button type="button" className="text-blue-700 hover:underline" onClick={() => go({ path: undefined })}>
+                  All
+                </button>
+                {pathSegments.map((segment, index) => (
+                  <span key={index} className="flex items-center gap-1">
+                    <span className="text-slate-400">/</span>
+                    <button
+                      type="button"
+                      className="text-blue-700 hover:underline"
+                      onClick={() => go({ path: pathSegments.slice(0, index + 1).join("/") })}
+                    >
+                      {segment}
+                    </button>
+                  </span>
+                ))}
+              </div>
+              <ul className="space-y-1">
+                {results?.facets.map(facet => (
+                  <li key={facet.path}>
+                    <button
+                      type="button"
+                      className="flex w-full items-center justify-between rounded px-2 py-1 text-sm text-slate-700 hover:bg-white"
+                      onClick={() => go({ path: facet.path })}
+                    >
+                      <span>{facet.label}</span>
+                      <span className="text-xs text-slate-500">{facet.count.toLocaleString()}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            {query.book && (
+              <div>
+                <h2 className="text-sm font-semibold text-slate-900 mb-2">Book</h2>
+                <Badge variant="secondary" className="gap-1">
+                  {query.book}
+                  <button type="button" aria-label="Search all books" onClick={() => go({ book: undefined })}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              </div>
+            )}
+          </aside>
+
+          {/* Results */}
+          <section className="lg:col-span-3 space-y-4">
+            {!query.text && <p className="text-slate-600">Enter words to search the library.</p>}
+            {loading && <p className="text-slate-600">Searching...</p>}
+            {error && !loading && <p className="text-red-600">{error}</p>}
+            {results && !loading && !error && (
+              <>
+                <p className="text-sm text-slate-600">
+                  {results.total.toLocaleString()} result{results.total === 1 ? "" : "s"} for &ldquo;{query.text}&rdquo;
+                </p>
+                {results.hits.map((hit, index) => (
+                  <div key={`${hit.ref}-${hit.version}-${index}`} className="bg-white rounded-xl border p-4 space-y-2">
+                    <div className="flex items-baseline justify-between gap-4">
+                      <Link href={hitPath(hit)} className="font-semibold text-blue-700 hover:underline">
+                        {hit.ref}
+                      </Link>
+                      {hit.heRef && <span className="font-hebrew text-slate-500">{hit.heRef}</span>}
+                    </div>
+                    {hit.snippets.map((snippet, i) => (
+                      <p
+                        key={i}
+                        className={`text-slate-700 leading-relaxed ${hit.language === "he" ? "font-hebrew text-right text-lg" : ""}`}
+                        dir={hit.language === "he" ? "rtl" : "ltr"}
+                      >
+                        {snippet.map((part, j) =>
+                          part.match ? <mark key={j} className="bg-yellow-200 rounded px-0.5">{part.text}</mark> : <span key={j}>{part.text}</span>
+                        )}
+                      </p>
+                    ))}
+                    <div className="text-xs text-slate-500">
+                      {hit.path.split("/").join(" › ")}
+                      {hit.version && <> · {hit.version}</>}
+                    </div>
+                  </div>
+                ))}
+
+                {pages > 1 && (
+                  <Pagination>
+                    <PaginationContent>
+                      {query.page > 1 && (
+                        <PaginationItem>
+                          <PaginationPrevious href={searchUrl({ ...query, page: query.page - 1 })} />
+                        </PaginationItem>
+                      )}
+                      {pageWindow(query.page, pages).map((p, i) => (
+                        <PaginationItem key={i}>
+                          {p === null ? (
+                            <PaginationEllipsis />
+                          ) : (
+                            <PaginationLink href={searchUrl({ ...query, page: p })} isActive={p === query.page}>
+                              {p}
+                            </PaginationLink>
+                          )}
+                        </PaginationItem>
+                      ))}
+                      {query.page < pages && (
+                        <PaginationItem>
+                          <PaginationNext href={searchUrl({ ...query, page: query.page + 1 })} />
+                        </PaginationItem>
+                      )}
+                    </PaginationContent>
+                  </Pagination>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
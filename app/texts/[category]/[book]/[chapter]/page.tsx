@@ -1,8 +1,8 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { BookOpen, Search, ChevronLeft, ChevronRight, Network, GitBranch, Brain, Clock, MessageSquare, Map, Tag, Hash, Plus, X, Filter, Star, Calendar, Check, ZoomIn, ZoomOut, Maximize2 } from "lucide-react"
+import { BookOpen, Search, ChevronLeft, ChevronRight, Network, GitBranch, Brain, Clock, MessageSquare, Map, Tag, Hash, Plus, X, Filter, Star, Calendar, Check, ZoomIn, ZoomOut, Maximize2, Copy, Link as LinkIcon, Route, StickyNote, Download } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { ContentLanguageProvider, useOptionalContentLanguage } from "@/components/content-language-context"
 import { Input } from "@/components/ui/input"
@@ -18,18 +18,46 @@ import { Command, CommandInput, CommandList, CommandEmpty, CommandGroup, Command
 import AuthorMap from "@/components/AuthorMap"
 import LexicalHypergraph from "@/components/LexicalHypergraph"
 import CalendarDrawer from "@/components/CalendarDrawer"
+import GraphExportMenu from "@/components/GraphExportMenu"
+import ApparatusExportMenu from "@/components/ApparatusExportMenu"
+import DiffText from "@/components/DiffText"
+import SynopticComparison from "@/components/SynopticComparison"
+import AnnotationsPanel from "@/components/AnnotationsPanel"
+import HighlightToolbar from "@/components/HighlightToolbar"
+import SefariaHtml from "@/components/SefariaHtml"
+import CommentaryPanel from "@/components/CommentaryPanel"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
+import { useSegmentScrollSync } from "@/hooks/use-segment-scroll-sync"
+import { useAnnotations } from "@/hooks/use-annotations"
+import { useHighlights } from "@/hooks/use-highlights"
+import { useBookSearch } from "@/hooks/use-book-search"
+import { useCommentary, usePinnedCommentators } from "@/hooks/use-commentary"
 import * as d3 from "d3"
 import SugyaLogicTree from "./SugyaLogicTree"
 import PsakLineageTimeline from "./PsakLineageTimeline"
-import { fetchConnectionsForVerse } from "@/lib/neo4j"
+import { fetchConnectionsForVerse, fetchNeighbors, fetchPathBetween, linkEndpointId, MAX_GRAPH_DEPTH, mergeGraphData, NODE_TYPE_STYLES, RELATIONSHIP_STYLES, relationshipTypesIn, type NodeType, type RelationshipType } from "@/lib/graph"
+import { readGraphState, writeGraphState, type GraphUrlState, type GraphZoom } from "@/lib/graph-state"
+import { buildApparatus } from "@/lib/apparatus"
+import { ANNOTATION_TYPES, annotationCovers, annotationSpans, type Annotation, type AnnotationRange } from "@/lib/annotations"
+import { highlightSpans, type HighlightColor } from "@/lib/highlights"
+import { numberFootnotes, type NumberedFootnote } from "@/lib/sefaria-html"
+import { selectionOffsets } from "@/lib/text-anchors"
+import { HEBREW_CHARACTERS, containsHebrew } from "@/lib/hebrew"
+import { DEFAULT_SECTION_SCHEMA, formatSectionNumber, sectionLabel, type SectionSchema } from "@/lib/section-labels"
+import { adjacentSection, loadSectionSchema, readerSection, schemaSections, type NavigationDirection, type SectionLinks } from "@/lib/section-navigation"
+import { useLanguage } from "@/components/language-context"
+import { hitPath, searchUrl, type SearchHit } from "@/lib/search"
+import { DIFF_KIND_STYLES, HIGHLIGHTED_KINDS, diffWords, type HighlightMode } from "@/lib/text-diff"
+import { MAX_SYNOPTIC_WITNESSES, MIN_SYNOPTIC_WITNESSES, alignWitnesses, fetchWitness, fetchWitnessList, type Witness, type WitnessInfo } from "@/lib/witnesses"
+import { compareSections, formatRef, isDafSection, isRangeRef, makeRef, normalizeBookTitle, parseRef, parseRefPath, refIncludes, refToPath, sectionNumber, sectionsBetween } from "@/lib/ref"
 
 // Graph interfaces
 interface GraphNode extends d3.SimulationNodeDatum {
   id: string;
   title: string;
-  type: "current" | "halakhic" | "aggadic" | "lexical" | "responsa" | "commentary" | "mishnah" | "talmud" | "kabbalah";
+  type: NodeType;
+  category?: string;
   snippet: string;
   content?: string;
   url?: string;
@@ -53,7 +81,8 @@ interface GraphLink extends d3.SimulationLinkDatum<GraphNode> {
   id: string;
   source: string | GraphNode;
   target: string | GraphNode;
-  type: "explicit";
+  type: RelationshipType;
+  relationType?: string;
   strength: number;
   weight?: number;
   simulation?: {
@@ -69,6 +98,9 @@ interface GraphData {
 
 const emptyGraphData: GraphData = { nodes: [], links: [] }
 
+// Time period chips selected when the connections graph opens
+const DEFAULT_TIME_PERIODS = ["Biblical", "Tannaitic", "Amoraic"]
+
 const safeLearning = {
   parasha: "-",
   dafYomi: "-",
@@ -77,175 +109,6 @@ const safeLearning = {
   hebrewDate: "-"
 };
 
-// Enhanced manuscript data for Textual Topology Engine
-const manuscriptVersions = {
-  Vilna: {
-    name: "Vilna Edition",
-    year: 1880,
-    description: "Standard printed edition",
-    segments: [
-      {
-        id: 1,
-        text: "תנו רבנן: מאימתי קורין את שמע בערבית? משעה שהכהנים נכנסים לאכול בתרומתן",
-        translation: "The Sages taught: From when do we recite the Shema in the evening? From the time when the priests enter to eat their terumah.",
-        footnotes: [
-          {
-            id: "fn1",
-            text: "This refers to the time when stars appear and priests who were ritually impure during the day become pure.",
-            type: "critical"
-          },
-        ],
-      },
-      {
-        id: 2,
-        text: "עד סוף האשמורה הראשונה, דברי רבי אליעזר",
-        translation: "Until the end of the first watch, these are the words of Rabbi Eliezer.",
-        footnotes: [
-          { 
-            id: "fn2", 
-            text: "The first watch is the first third of the night, approximately 4 hours after sunset.",
-            type: "explanatory"
-          },
-        ],
-      },
-      {
-        id: 3,
-        text: "וחכמים אומרים: עד חצות",
-        translation: "And the Sages say: Until midnight.",
-        footnotes: [],
-      },
-    ],
-  },
-  Munich: {
-    name: "Munich Manuscript",
-    year: 1342,
-    description: "Medieval Ashkenazi manuscript",
-    segments: [
-      {
-        id: 1,
-        text: "תנו רבנן: מאימתי קורין את שמע בערבית? משעה שהכהנים נכנסים לאכול בתרומתן",
-        translation: "The Sages taught: From when do we recite the Shema in the evening? From the time when the priests enter to eat their terumah.",
-        footnotes: [
-          {
-            id: "fn1",
-            text: "Munich variant: 'משעה שהכהנים נכנסים לאכול בתרומתן' - note the spelling variation",
-            type: "critical"
-          },
-        ],
-      },
-      {
-        id: 2,
-        text: "עד סוף האשמורה הראשונה, דברי רבי אליעזר",
-        translation: "Until the end of the first watch, these are the words of Rabbi Eliezer.",
-        footnotes: [
-          { 
-            id: "fn2", 
-            text: "Munich reads 'האשמורה' with different vocalization than Vilna",
-            type: "critical"
-          },
-        ],
-      },
-      {
-        id: 3,
-        text: "וחכמים אומרים: עד חצות הלילה",
-        translation: "And the Sages say: Until midnight of the night.",
-        footnotes: [
-          {
-            id: "fn3",
-            text: "Munich adds 'הלילה' (of the night) - this is a significant variant",
-            type: "critical"
-          },
-        ],
-      },
-    ],
-  },
-  Vatican: {
-    name: "Vatican Manuscript",
-    year: 1200,
-    description: "Early Italian manuscript",
-    segments: [
-      {
-        id: 1,
-        text: "תנו רבנן: מאימתי קורין את שמע בערבית? משעה שהכהנים נכנסים לאכול בתרומתן",
-        translation: "The Sages taught: From when do we recite the Shema in the evening? From the time when the priests enter to eat their terumah.",
-        footnotes: [],
-      },
-      {
-        id: 2,
-        text: "עד סוף האשמורה הראשונה, דברי רבי אליעזר",
-        translation: "Until the end of the first watch, these are the words of Rabbi Eliezer.",
-        footnotes: [],
-      },
-      {
-        id: 3,
-        text: "וחכמים אומרים: עד חצות",
-        translation: "And the Sages say: Until midnight.",
-        footnotes: [],
-      },
-    ],
-  }
-}
-
-
-// Text comparison function for computing differences
-const computeTextDifferences = (text1: string, text2: string) => {
-  const differences: Array<{
-    type: 'insertion' | 'deletion' | 'substitution';
-    text: string;
-    position: number;
-    note?: string;
-  }> = [];
-  
-  // Simple word-by-word comparison
-  const words1 = text1.split(/\s+/);
-  const words2 = text2.split(/\s+/);
-  
-  let i = 0, j = 0;                                                                                                                                                                                                                               
-  let position = 0;
-  
-  while (i < words1.length || j < words2.length) {
-    if (i < words1.length && j < words2.length && words1[i] === words2[j]) {
-      // Words match, move both pointers
-      position += words1[i].length + 1; // +1 for space
-      i++;
-      j++;
-    } else if (i < words1.length && j < words2.length && words1[i] !== words2[j]) {
-      // Substitution
-      differences.push({
-        type: 'substitution',
-        text: words1[i] + ' → ' + words2[j],
-        position,
-        note: `Word substitution: "${words1[i]}" becomes "${words2[j]}"`
-      });
-      position += Math.max(words1[i].length, words2[j].length) + 1;
-      i++;
-      j++;
-    } else if (i < words1.length) {
-      // Deletion in text1
-      differences.push({
-        type: 'deletion',
-        text: words1[i],
-        position,
-        note: `Word deleted: "${words1[i]}"`
-      });
-      position += words1[i].length + 1;
-      i++;
-    } else if (j < words2.length) {
-      // Insertion in text2
-      differences.push({
-        type: 'insertion',
-        text: words2[j],
-        position,
-        note: `Word added: "${words2[j]}"`
-      });
-      position += words2[j].length + 1;
-      j++;
-    }
-  }
-  
-  return differences;
-}
-
 interface VerseData {
   hebrew: string;
   english: string;
@@ -255,6 +118,25 @@ interface VerseData {
   chapterNumber: number;
 }
 
+interface VersePosition {
+  chapter: number | string;
+  verse: number;
+}
+
+// Anchor is where the selection started (click or drag start), focus is where it currently ends
+interface VerseSelection {
+  anchor: VersePosition;
+  focus: VersePosition;
+}
+
+const compareVersePositions = (a: VersePosition, b: VersePosition) =>
+  compareSections(a.chapter, b.chapter) || a.verse - b.verse
+
+// Upper bound on the number of verses whose connections are fetched for a range selection
+const MAX_RANGE_GRAPH_VERSES = 30
+
+const stripHtml = (html: string) => html.replace(/<[^>]+>/g, "").replace(/&nbsp;/g, " ").trim()
+
 interface ChapterData {
   verses: VerseData[];
   loading: boolean;
@@ -281,12 +163,21 @@ export default function ChapterPage({ params }: ChapterPageProps) {
 function ChapterPageInner({ params }: ChapterPageProps) {
   const { book, chapter, verse } = params
   const router = useRouter()
+  const [sidebarSearch, setSidebarSearch] = useState("")
+  const {
+    results: bookSearchResults,
+    indexedChapters,
+    error: bookSearchError,
+    indexChapter,
+    downloadBook,
+    downloadProgress,
+  } = useBookSearch(normalizeBookTitle(book), sidebarSearch)
 
   // Helper function to separate Hebrew and English from bilingual commentary text
   const separateHebrewAndEnglish = (text: string): [string, string] => {
     // Look for pattern: Hebrew text, then comma or dash, then English text
     // This matches formats like: "ויברך אלוקים את יום השביעי , when the seventh day arrived..."
-    const match = text.match(/^([\u0590-\u05FF\uFB1D-\uFB4F\s]+)[\s,]*([\s\-–—]*)(.+)$/);
+    const match = text.match(new RegExp(`^([${HEBREW_CHARACTERS}\\s]+)[\\s,]*([\\s\\-–—]*)(.+)$`));
     
     if (match) {
       const [, hebrewPart, separator, englishPart] = match;
@@ -294,7 +185,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       const english = englishPart.trim();
       
       // Verify the first part contains Hebrew characters
-      if (/[\u0590-\u05FF\uFB1D-\uFB4F]/.test(hebrew)) {
+      if (containsHebrew(hebrew)) {
         return [hebrew, english];
       }
     }
@@ -307,7 +198,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       const second = secondPart.trim();
       
       // Check if first part contains mostly English (Latin alphabet)
-      const hasHebrew = /[\u0590-\u05FF\uFB1D-\uFB4F]/.test(first);
+      const hasHebrew = containsHebrew(first);
       const hasEnglish = /[a-zA-Z]/.test(first);
       
       if (hasHebrew && !hasEnglish) {
@@ -325,69 +216,66 @@ function ChapterPageInner({ params }: ChapterPageProps) {
   // State for chapter data
   const [chaptersData, setChaptersData] = useState<{ [key: number | string]: ChapterData }>({});
   const [displayMode, setDisplayMode] = useState<"hebrew" | "english" | "bilingual">("bilingual");
+  const { language } = useLanguage()
+  // How the book names and numbers its sections, from its index record
+  const [sectionSchema, setSectionSchema] = useState<SectionSchema>(DEFAULT_SECTION_SCHEMA)
+  // Latest schema for the chapter-loading effects, which outlive a render
+  const sectionSchemaRef = useRef(sectionSchema)
+  sectionSchemaRef.current = sectionSchema
+  // Sefaria's next/prev refs of each loaded chapter
+  const sectionLinksRef = useRef<Record<string, SectionLinks>>({})
+  // Labels switch to Hebrew when the interface or the text shown is Hebrew
+  const labelLanguage = language === "he" || displayMode === "hebrew" ? "he" : "en"
+
+  useEffect(() => {
+    let cancelled = false
+    loadSectionSchema(book)
+      .then(schema => {
+        if (!cancelled) setSectionSchema(schema)
+      })
+      .catch(err => console.error("Failed to load book index:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [book])
   // Refs for intersection observer
   const topTriggerRef = useRef<HTMLDivElement>(null);
   const bottomTriggerRef = useRef<HTMLDivElement>(null);
   
-  // Utility function to parse chapter and verse from URL
+  // Utility function to parse chapter and verse from URL (/Book.Chapter.Verse or /texts/category/book/chapter)
   const parseChapterAndVerseFromUrl = () => {
     if (typeof window === 'undefined') return { chapter: null, verse: null };
     
-    const pathname = window.location.pathname;
-    const hash = window.location.hash;
-    
-    // Check for short format URLs like /Book.Chapter.Verse (supports mixed chapter formats)
-    const shortFormatMatch = pathname.match(/\/([^\/]+)\.([^\/.]+)\.(\d+)\/?$/);
-    if (shortFormatMatch) {
-      return {
-        chapter: shortFormatMatch[2], // Keep as string to preserve mixed formats
-        verse: parseInt(shortFormatMatch[3])
-      };
-    }
-    
-    // Check for short format URLs like /Book.Chapter (supports mixed chapter formats)
-    const shortChapterMatch = pathname.match(/\/([^\/]+)\.([^\/.]+)\/?$/);
-    if (shortChapterMatch) {
-      const verseFromHash = hash ? parseInt(hash.replace('#', '')) : null;
-      return {
-        chapter: shortChapterMatch[2], // Keep as string to preserve mixed formats
-        verse: verseFromHash
-      };
-    }
-    
-    // For standard format URLs like /texts/category/book/chapter
-    const pathParts = pathname.split('/').filter(Boolean);
-    if (pathParts.length >= 4 && pathParts[0] === 'texts') {
-      const chapterParam = pathParts[3];
-      const verseFromHash = hash ? parseInt(hash.replace('#', '')) : null;
-      return {
-        chapter: chapterParam, // Keep as string to preserve mixed formats
-        verse: verseFromHash
-      };
-    }
+    const ref = parseRefPath(window.location.pathname);
+    if (!ref || ref.sections.length === 0) return { chapter: null, verse: null };
     
-    return { chapter: null, verse: null };
+    const hash = window.location.hash;
+    const verseFromHash = hash ? parseInt(hash.replace('#', '')) : null;
+    return {
+      chapter: ref.sections[0], // Keep as string to preserve mixed formats like 2a
+      verse: ref.sections[1] ? parseInt(ref.sections[1]) : verseFromHash,
+      // End of a range ref such as /Genesis.1.3-2.4
+      toChapter: ref.toSections[0],
+      toVerse: ref.toSections[1] ? parseInt(ref.toSections[1]) : null
+    };
   };
 
-  // Parse chapter and verse from URL - support formats like "chapter" or "chapter.verse"
+  // Parse chapter and verse from route params - support formats like "chapter" or "chapter.verse"
   const parseChapterAndVerse = (chapterParam: string, verseParam: string) => {
-    const parts = chapterParam.split('.');
-    // For mixed formats like "1:1", "1:2", "1a", "2b", keep as string
-    // For pure numbers, convert to number for backward compatibility
-    const chapterValue = /^\d+$/.test(parts[0]) ? parseInt(parts[0]) : parts[0];
+    const section = chapterParam.split('.')[0];
+    // Talmud dapim like "2a" stay strings; plain numbers convert for backward compatibility
+    const chapterValue = isDafSection(section) ? section : (sectionNumber(section) ?? section);
     const verseNum = verseParam ? parseInt(verseParam) : null;
     return { chapter: chapterValue, verse: verseNum };
   };
 
-  // Helper function to get numeric chapter for arithmetic operations
-  const getNumericChapter = (chapter: number | string): number | null => {
-    if (typeof chapter === 'number') return chapter;
-    const match = chapter.match(/^(\d+)/);
-    return match ? parseInt(match[1]) : null;
-  };
-
   // State to hold URL-parsed values
-  const [urlParsedData, setUrlParsedData] = useState<{ chapter: number | string | null; verse: number | null }>({ chapter: null, verse: null });
+  const [urlParsedData, setUrlParsedData] = useState<{
+    chapter: number | string | null;
+    verse: number | null;
+    toChapter?: number | string;
+    toVerse?: number | null;
+  }>({ chapter: null, verse: null });
   // Track if we've completed the initial scroll to target verse
   const [hasScrolledToTarget, setHasScrolledToTarget] = useState(false);
 
@@ -413,6 +301,24 @@ function ChapterPageInner({ params }: ChapterPageProps) {
     }
   }, [urlParsedData.chapter]);
 
+  // The chapter before or after `section` within this book, or null at either
+  // end (reading may go on in another book; see continuation)
+  const adjacentChapter = (section: number | string, direction: NavigationDirection): number | string | null => {
+    const links = sectionLinksRef.current[String(section)]
+    const adjacent = adjacentSection(sectionSchemaRef.current, normalizeBookTitle(book), section, direction, links)
+    return adjacent && "section" in adjacent ? readerSection(adjacent.section) : null
+  }
+
+  // Where reading goes on past the first or last loaded chapter when that is
+  // another book or part of a book, e.g. the next tractate
+  const continuation = (direction: NavigationDirection) => {
+    const loaded = Object.keys(chaptersData).sort(compareSections)
+    const edge = direction === "next" ? loaded[loaded.length - 1] : loaded[0]
+    if (edge === undefined || !sectionLinksRef.current[edge]) return null
+    const adjacent = adjacentSection(sectionSchema, normalizeBookTitle(book), edge, direction, sectionLinksRef.current[edge])
+    return adjacent && "ref" in adjacent ? adjacent.ref : null
+  }
+
   // Function to fetch a single chapter
   const fetchChapter = async (chapterNum: number | string) => {
     // Skip invalid chapter numbers
@@ -438,7 +344,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       }));
 
       const response = await fetch(
-        `https://www.sefaria.org/api/v3/texts/${book}.${chapterNum}?version=hebrew&version=translation`
+        `/api/texts/${encodeURIComponent(`${book}.${chapterNum}`)}?version=hebrew&version=translation`
       );
 
       if (!response.ok) {
@@ -446,6 +352,9 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       }
 
       const data = await response.json();
+      if ("next" in data || "prev" in data) {
+        sectionLinksRef.current[String(chapterNum)] = { next: data.next ?? null, prev: data.prev ?? null }
+      }
       let combinedVerses: VerseData[] = [];
       
       // Check if this is commentary data (has text array) or regular text (has versions array)
@@ -506,7 +415,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
 
       // If we're prepending content above the current view, preserve scroll position anchored to an element
       const scroller = scrollerRef.current
-      const shouldAdjustScroll = !!scroller && chapterNum < activeChapter
+      const shouldAdjustScroll = !!scroller && compareSections(chapterNum, activeChapter) < 0
       let anchorEl: HTMLElement | null = null
       let anchorOffset = 0
       if (shouldAdjustScroll && scroller) {
@@ -532,6 +441,11 @@ function ChapterPageInner({ params }: ChapterPageProps) {
         }
       }
 
+      void indexChapter(
+        chapterNum,
+        combinedVerses.map(v => ({ verse: v.verseNumber, he: v.hebrewHtml, en: v.englishHtml }))
+      )
+
       setChaptersData(prev => ({
         ...prev,
         [chapterNum]: {
@@ -619,9 +533,9 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       if (cancelled) return
       // Do not preload previous chapter on initial mount to avoid prepending content shifting the viewport
       if (cancelled) return
-      const numericChapter = getNumericChapter(currentChapter);
-      if (numericChapter) {
-        await fetchChapter(numericChapter + 1)
+      const nextChapter = adjacentChapter(currentChapter, "next")
+      if (nextChapter != null) {
+        await fetchChapter(nextChapter)
       }
       preloading = false
     }
@@ -710,34 +624,34 @@ function ChapterPageInner({ params }: ChapterPageProps) {
         hasRunActiveChapterEffectOnceRef.current = true
         return
       }
-      if (!Number.isFinite(activeChapter)) return
+      if (sectionNumber(activeChapter) === null) return
       // Ensure active chapter is present (if navigated across boundary quickly)
       if (!chaptersData[activeChapter]?.verses?.length && !chaptersData[activeChapter]?.loading) {
         await fetchChapter(activeChapter)
       }
       // Fetch previous and next in background as needed
       // Only fetch previous once the user has scrolled to avoid initial prepend jumps
-      const numericActiveChapter = getNumericChapter(activeChapter);
-      if (numericActiveChapter && numericActiveChapter > 1 && hasUserScrolledRef.current) {
-        await fetchChapter(numericActiveChapter - 1)
+      const previousChapter = adjacentChapter(activeChapter, "prev")
+      if (previousChapter != null && hasUserScrolledRef.current) {
+        await fetchChapter(previousChapter)
       }
-      if (numericActiveChapter) {
-        await fetchChapter(numericActiveChapter + 1)
+      const nextChapter = adjacentChapter(activeChapter, "next")
+      if (nextChapter != null) {
+        await fetchChapter(nextChapter)
       }
 
       // Delay pruning slightly to avoid visible drift after correction
       setTimeout(() => {
-        if (numericActiveChapter) {
-          const allowed = new Set([numericActiveChapter - 1, numericActiveChapter, numericActiveChapter + 1].filter(n => n > 0))
-          setChaptersData(prev => {
-            const next: typeof prev = {}
-            for (const k of Object.keys(prev)) {
-              const num = parseInt(k)
-              if (allowed.has(num)) next[num] = prev[num]
-            }
-            return next
-          })
-        }
+        const allowed = new Set([previousChapter, activeChapter, nextChapter].filter(c => c != null).map(String))
+        // Chapters covered by the selected range stay loaded as well
+        const keep = new Set(selectionChaptersRef.current)
+        setChaptersData(prev => {
+          const next: typeof prev = {}
+          for (const k of Object.keys(prev)) {
+            if (allowed.has(k) || keep.has(k)) next[k] = prev[k]
+          }
+          return next
+        })
       }, 120)
     }
     void run()
@@ -747,7 +661,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
 
   // Mock data for the study interface - in real app, this would be fetched based on params
   const currentText = {
-    title: `${book.charAt(0).toUpperCase() + book.slice(1)} ${activeChapter}`,
+    title: formatRef(makeRef(book, [activeChapter])),
     hebrew: "מאימתי קורין את שמע בערבית",
     translation: "From when do we recite the Shema in the evening?",
     content: [
@@ -762,16 +676,6 @@ function ChapterPageInner({ params }: ChapterPageProps) {
           halakhic: "This establishes the earliest time for evening Shema recitation.",
           mystical: "The Zohar connects this to the cosmic transition from day to night.",
         },
-        annotations: [
-          {
-            id: "ann1",
-            type: "halakhic",
-            author: "Rabbi Cohen",
-            text: "This timing connects to broader questions of when mitzvot begin and end.",
-            votes: 5,
-            timestamp: "2 hours ago",
-          },
-        ],
       },
       {
         id: 2,
@@ -783,7 +687,6 @@ function ChapterPageInner({ params }: ChapterPageProps) {
           halakhic: "Rabbi Eliezer's position on the latest time for Shema.",
           mystical: "The watches correspond to different spiritual realms.",
         },
-        annotations: [],
       },
       {
         id: 3,
@@ -795,7 +698,6 @@ function ChapterPageInner({ params }: ChapterPageProps) {
           halakhic: "The majority opinion extends the time until midnight.",
           mystical: "Midnight represents the deepest point of spiritual darkness.",
         },
-        annotations: [],
       },
     ],
   }
@@ -829,19 +731,75 @@ function ChapterPageInner({ params }: ChapterPageProps) {
   const [lexicalGraphView, setLexicalGraphView] = useState(false)
   const [calendarDrawerOpen, setCalendarDrawerOpen] = useState(false)
   const [annotationMode, setAnnotationMode] = useState(false)
+  // Text selected in a verse when its Note button was pressed; new notes anchor to it
+  const [annotationRange, setAnnotationRange] = useState<AnnotationRange | null>(null)
+  // Color palette for selected verse text, or for a highlight that was clicked
+  const [highlightMenu, setHighlightMenu] = useState<
+    | { x: number; y: number; position: VersePosition; range: AnnotationRange }
+    | { x: number; y: number; highlightId: string; color: HighlightColor }
+    | null
+  >(null)
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null)
   
-  // Card selection state
-  const [selectedCardId, setSelectedCardId] = useState<number | null>(null)
+  // Verse selection state: a single verse or a contiguous span, possibly across chapters
+  const [verseSelection, setVerseSelection] = useState<VerseSelection | null>(null)
+  const dragAnchorRef = useRef<VersePosition | null>(null)
+  const dragMovedRef = useRef<boolean>(false)
+  const selectionChaptersRef = useRef<string[]>([])
+  const pendingRangeScrollRef = useRef<boolean>(false)
+
+  // Selected span in document order and the ref it covers, e.g. Genesis 1:3-2:4
+  const selectedSpan = verseSelection
+    ? (compareVersePositions(verseSelection.anchor, verseSelection.focus) <= 0
+        ? { start: verseSelection.anchor, end: verseSelection.focus }
+        : { start: verseSelection.focus, end: verseSelection.anchor })
+    : null
+  const selectedRef = selectedSpan
+    ? makeRef(book, [selectedSpan.start.chapter, selectedSpan.start.verse], [selectedSpan.end.chapter, selectedSpan.end.verse])
+    : null
+  const selectedRefKey = selectedRef ? formatRef(selectedRef) : null
+
+  const isVerseSelected = (position: VersePosition) =>
+    !!selectedSpan &&
+    compareVersePositions(selectedSpan.start, position) <= 0 &&
+    compareVersePositions(position, selectedSpan.end) <= 0
+
+  // Loaded verses inside the selected span, in reading order
+  const getSelectedVerses = (): VerseData[] => {
+    if (!selectedSpan) return []
+    return Object.values(chaptersData)
+      .flatMap(c => c.verses || [])
+      .filter(v => isVerseSelected({ chapter: v.chapterNumber, verse: v.verseNumber }))
+      .sort((a, b) => compareVersePositions(
+        { chapter: a.chapterNumber, verse: a.verseNumber },
+        { chapter: b.chapterNumber, verse: b.verseNumber }
+      ))
+  }
   
   // Textual Topology Engine state
   const [topologyModalOpen, setTopologyModalOpen] = useState(false)
-  const [primaryVersion, setPrimaryVersion] = useState("Vilna")
-  const [alternateVersion, setAlternateVersion] = useState("Munich")
-  const [highlightMode, setHighlightMode] = useState<"linguistic" | "semantic">("linguistic")
+  // Witnesses are the Sefaria versions of the chapter, selected by versionTitle
+  const [witnessList, setWitnessList] = useState<WitnessInfo[]>([])
+  const [witnessesLoading, setWitnessesLoading] = useState(false)
+  const [witnessError, setWitnessError] = useState<string | null>(null)
+  const [primaryVersion, setPrimaryVersion] = useState("")
+  const [alternateVersion, setAlternateVersion] = useState("")
+  const [primaryWitness, setPrimaryWitness] = useState<Witness | null>(null)
+  const [alternateWitness, setAlternateWitness] = useState<Witness | null>(null)
+  // Synoptic view: 3–6 witnesses in aligned rows, diffed against a base text
+  const [comparisonView, setComparisonView] = useState<"parallel" | "synoptic">("parallel")
+  const [synopticVersions, setSynopticVersions] = useState<string[]>([])
+  const [synopticWitnesses, setSynopticWitnesses] = useState<Witness[]>([])
+  const [synopticBase, setSynopticBase] = useState("")
+  const [highlightMode, setHighlightMode] = useState<HighlightMode>("linguistic")
   const [showDifferences, setShowDifferences] = useState(true)
   const [scrollLocked, setScrollLocked] = useState(true)
   const [footnoteTooltip, setFootnoteTooltip] = useState<{id: string, text: string, x: number, y: number} | null>(null)
+  // Footnotes in the reader: shown or hidden, opened as a tooltip on the marker or
+  // as side notes under the verse, and optionally listed again after each chapter
+  const [showFootnotes, setShowFootnotes] = useState(true)
+  const [footnoteDisplay, setFootnoteDisplay] = useState<"tooltip" | "side">("tooltip")
+  const [footnotesAtChapterEnd, setFootnotesAtChapterEnd] = useState(false)
   
   // Graph state
   const [connectionsModalOpen, setConnectionsModalOpen] = useState(false)
@@ -851,10 +809,24 @@ function ChapterPageInner({ params }: ChapterPageProps) {
 	const [originalGraphData, setOriginalGraphData] = useState<GraphData>(emptyGraphData)
   const [connectionsLoading, setConnectionsLoading] = useState<boolean>(false)
   const [connectionsError, setConnectionsError] = useState<string | null>(null)
+  const [graphDepth, setGraphDepth] = useState<number>(1)
+  const [expandingNodeId, setExpandingNodeId] = useState<string | null>(null)
+  // Path finding: pick a start node, then find the shortest path to another node
+  const [pathSourceNode, setPathSourceNode] = useState<GraphNode | null>(null)
+  const [pathLoading, setPathLoading] = useState(false)
+  const [pathMessage, setPathMessage] = useState<string | null>(null)
+  const [highlightedPath, setHighlightedPath] = useState<{ nodeIds: Set<string>; linkIds: Set<string> } | null>(null)
+  // Graph state mirrored in the URL (see lib/graph-state.ts)
+  const [graphZoom, setGraphZoom] = useState<GraphZoom | null>(null)
+  const [graphUrlLoaded, setGraphUrlLoaded] = useState(false)
+  const pendingGraphNodeRef = useRef<string | null>(null) // node from the URL not loaded yet
+  const programmaticZoomRef = useRef(false)
+  const lastGraphExploreSearchRef = useRef<string | null>(null)
   const [activeFilters, setActiveFilters] = useState({
     genre: [] as string[],
     author: [] as string[],
-    timePeriod: [] as string[]
+    timePeriod: [] as string[],
+    relationship: [] as RelationshipType[]
   })
 	const currentYear = new Date().getFullYear()
 	const [yearRange, setYearRange] = useState<[number, number]>([0, currentYear])
@@ -868,6 +840,8 @@ function ChapterPageInner({ params }: ChapterPageProps) {
 		return Array.from(set).sort((a, b) => a.localeCompare(b))
 	})()
 
+	const relationshipOptions = relationshipTypesIn(originalGraphData.links || [])
+
 	const genreOptions = (() => {
 		const set = new Set<string>()
 		for (const n of originalGraphData.nodes || []) {
@@ -876,11 +850,11 @@ function ChapterPageInner({ params }: ChapterPageProps) {
 		return Array.from(set).sort((a, b) => a.localeCompare(b))
 	})()
   // Time Period filter chips state
-  const [selectedTimePeriods, setSelectedTimePeriods] = useState<string[]>(["Biblical","Tannaitic","Amoraic"]) // default selected
+  const [selectedTimePeriods, setSelectedTimePeriods] = useState<string[]>(DEFAULT_TIME_PERIODS) // default selected
   const toggleTimePeriod = (value: string) => {
     setSelectedTimePeriods((prev: string[]) => {
       const next = prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]
-      setActiveFilters((f: { genre: string[]; author: string[]; timePeriod: string[] }) => ({ ...f, timePeriod: next }))
+      setActiveFilters(f => ({ ...f, timePeriod: next }))
       return next
     })
   }
@@ -890,52 +864,20 @@ function ChapterPageInner({ params }: ChapterPageProps) {
     setActiveFilters({
       genre: [],
       author: [],
-      timePeriod: []
+      timePeriod: [],
+      relationship: []
     })
     setYearRange(defaultYearRange)
-    setSelectedTimePeriods(["Biblical","Tannaitic","Amoraic"])
+    setSelectedTimePeriods(DEFAULT_TIME_PERIODS)
     setSelectedNodePreview(null)
     setFilterDrawerOpen(true) // Keep filter drawer open by default
   }
 
-  // Parse node title and convert to URL path
+  // Parse node title (a Sefaria ref such as "Targum Jonathan on Genesis 19:18") and convert to URL path
   const parseNodeTitleToPath = (title: string): string | null => {
-    if (!title) return null
-    
-    // Handle different title formats
-    // Examples: "Genesis 5:7" -> "/Genesis.5.7"
-    // "Targum Jonathan on Genesis 19:18" -> "/Targum_Jonathan_on_Genesis.19.18"
-    
-    // Split by space to separate book name from chapter:verse
-    console.log("Title:", title)
-    const parts = title.trim().split(' ')
-    console.log("Parts:", parts)
-    if (parts.length < 2) return null
-    console.log("Parts length:", parts.length)
-    // Get the last part (chapter:verse) and the rest (book name)
-    const chapterVerse = parts[parts.length - 1]
-    console.log("Chapter verse:", chapterVerse)
-    const bookName = parts.slice(0, -1).join(' ')
-    console.log("Book name:", bookName)
-    // Check if the last part contains chapter:verse format
-    // Supports formats: "1:2", "1:2:3", "1a:2", etc.
-    // Chapter can be alphanumeric, verse must be numeric
-    const chapterVerseMatch = chapterVerse.match(/^([a-zA-Z0-9]+(?::[a-zA-Z0-9]+)*)(?::(\d+))$/)
-    console.log("Chapter verse match:", chapterVerseMatch)
-    if (!chapterVerseMatch) return null
-    
-    const [, chapterWithColons, verse] = chapterVerseMatch
-    
-    // Convert all colons in chapter to dots for consistent URL formatting
-    const chapterWithDots = chapterWithColons.replace(/:/g, '.')
-    
-    // Convert book name: capitalize each word and replace spaces with underscores
-    const bookPath = bookName
-      .split(' ')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join('_')
-    console.log("Book path:", bookPath)
-    return `/${bookPath}.${chapterWithDots}.${verse}`
+    const ref = title ? parseRef(title) : null
+    if (!ref || ref.sections.length === 0) return null
+    return refToPath(ref)
   }
   const graphRef = useRef<HTMLDivElement>(null)
   const svgSelectionRef = useRef<any>(null)
@@ -1013,24 +955,11 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       .attr("fill", "#64748b")
 
     // Color scales
-    const nodeColors: Record<GraphNode["type"], string> = {
-      current: "#3b82f6", // blue
-      halakhic: "#2563eb", // blue per spec
-      aggadic: "#dc2626", // red
-      lexical: "#6b7280", // gray
-      responsa: "#10b981", // green
-      commentary: "#8b5cf6",
-      mishnah: "#f59e0b",
-      talmud: "#1e40af", // dark blue
-      kabbalah: "#dc2626" // red
-    }
+    const nodeColors = (type: NodeType) => NODE_TYPE_STYLES[type].color
+    const linkStyle = (type: RelationshipType) => RELATIONSHIP_STYLES[type] ?? RELATIONSHIP_STYLES.related
 
-    const linkColors = {
-      halakhic: "#2563eb", // blue per spec
-      aggadic: "#dc2626", // red
-      lexical: "#6b7280", // gray
-      responsa: "#10b981" // green
-    }
+    // Links and nodes on a found path
+    const pathColor = "#f97316"
 
     // Utility: lighten a hex color by mixing towards white
     const lightenColor = (hex: string, factor: number) => {
@@ -1077,6 +1006,11 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       .on("zoom", (event: any) => {
         zoomLayer.attr("transform", event.transform)
       })
+      .on("end", (event: any) => {
+        if (programmaticZoomRef.current) return
+        const { x, y, k } = event.transform
+        setGraphZoom({ x, y, k })
+      })
     svg.call(zoomBehavior as any)
     zoomBehaviorRef.current = zoomBehavior
 
@@ -1085,17 +1019,22 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       .selectAll("line")
       .data(centeredGraphData.links)
       .enter().append("line")
-      .attr("stroke", (d: GraphLink) => linkColors[d.type as keyof typeof linkColors] || "#64748b")
-      .attr("stroke-width", (d: GraphLink) => Math.max(1, d.strength * 1.5))
+      .attr("stroke", (d: GraphLink) => highlightedPath?.linkIds.has(d.id) ? pathColor : linkStyle(d.type).color)
+      .attr("stroke-dasharray", (d: GraphLink) => linkStyle(d.type).dash ?? null)
+      .attr("stroke-width", (d: GraphLink) => Math.max(1, d.strength * 1.5) + (highlightedPath?.linkIds.has(d.id) ? 2 : 0))
       .attr("opacity", 0.75)
       .attr("marker-end", "url(#arrowhead)")
       .on("mouseover", function(this: SVGLineElement, event: any, d: GraphLink) {
         d3.select(this).attr("opacity", 1).attr("stroke-width", (d.strength * 1.5) + 1)
-      })  
+      })
       .on("mouseout", function(this: SVGLineElement, event: any, d: GraphLink) {
         d3.select(this).attr("opacity", 0.6).attr("stroke-width", d.strength * 1.5)
       })
 
+    // Native tooltip naming the relationship
+    link.append("title")
+      .text((d: GraphLink) => `${linkStyle(d.type).label}${d.relationType ? ` (${d.relationType})` : ""}`)
+
     // Create nodes
     const node = zoomLayer.append("g")
       .selectAll("g")
@@ -1110,9 +1049,9 @@ function ChapterPageInner({ params }: ChapterPageProps) {
     // Add circles to nodes
     node.append("circle")
       .attr("r", (d: GraphNode) => d.type === "current" ? 25 : 15)
-      .attr("fill", (d: GraphNode) => lightenColor(nodeColors[d.type], 0.6))
-      .attr("stroke", (d: GraphNode) => nodeColors[d.type])
-      .attr("stroke-width", (d: GraphNode) => d.type === "current" ? 4 : 2)
+      .attr("fill", (d: GraphNode) => lightenColor(nodeColors(d.type), 0.6))
+      .attr("stroke", (d: GraphNode) => highlightedPath?.nodeIds.has(d.id) ? pathColor : nodeColors(d.type))
+      .attr("stroke-width", (d: GraphNode) => d.type === "current" || highlightedPath?.nodeIds.has(d.id) ? 4 : 2)
 
     // Add labels to nodes with enhanced visibility
     node.append("text")
@@ -1266,7 +1205,11 @@ function ChapterPageInner({ params }: ChapterPageProps) {
         svg.call(zoomBehavior.transform as any, transform)
       } catch {}
     }
+    programmaticZoomRef.current = true
     fitToView()
+    programmaticZoomRef.current = false
+    // Keep the reader's zoom (or the one from a shared link) over the initial fit
+    if (graphZoom) applyGraphZoom(graphZoom)
 
     // Drag functions with floating animation
     let floatingAnimation: any = null
@@ -1328,12 +1271,20 @@ function ChapterPageInner({ params }: ChapterPageProps) {
     }
   }
 
+  const applyGraphZoom = (zoom: GraphZoom): boolean => {
+    if (!svgSelectionRef.current || !zoomBehaviorRef.current) return false
+    programmaticZoomRef.current = true
+    svgSelectionRef.current.call(zoomBehaviorRef.current.transform, d3.zoomIdentity.translate(zoom.x, zoom.y).scale(zoom.k))
+    programmaticZoomRef.current = false
+    return true
+  }
+
   // Render graph when modal opens or data changes
   useEffect(() => {
     if (connectionsModalOpen) {
       setTimeout(renderGraph, 100) // Small delay to ensure DOM is ready
     }
-  }, [connectionsModalOpen, filteredGraphData])
+  }, [connectionsModalOpen, filteredGraphData, highlightedPath])
 
   // Reset data when modal opens/closes so only loading shows initially
   useEffect(() => {
@@ -1345,19 +1296,28 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       setFilteredGraphData(emptyGraphData)
       setConnectionsLoading(false)
       setConnectionsError(null)
+      setGraphDepth(1)
+      setGraphZoom(null)
     }
+    setPathSourceNode(null)
+    setPathMessage(null)
+    setHighlightedPath(null)
   }, [connectionsModalOpen])
 
   // Fetch Neo4j connections when modal opens
   useEffect(() => {
     const loadConnections = async () => {
-      if (!connectionsModalOpen || selectedCardId == null) return
+      if (!connectionsModalOpen || !selectedSpan) return
       try {
+        setConnectionsLoading(true)
         setConnectionsError(null)
-        const normalizedBook = book.charAt(0).toUpperCase() + book.slice(1)
-        const verseId = `${normalizedBook} ${activeChapter}:${selectedCardId}`
-        console.log("🔗 [Connections] Fetching connections for verse:", verseId);
-        const data = await fetchConnectionsForVerse(verseId)
+        // A range is explored as the merged neighborhoods of each of its verses
+        const positions: VersePosition[] = getSelectedVerses().map(v => ({ chapter: v.chapterNumber, verse: v.verseNumber }))
+        if (positions.length === 0) positions.push(selectedSpan.start)
+        const verseIds = positions
+          .slice(0, MAX_RANGE_GRAPH_VERSES)
+          .map(p => formatRef(makeRef(book, [p.chapter, p.verse])))
+        const data = mergeGraphData(await Promise.all(verseIds.map(id => fetchConnectionsForVerse(id, graphDepth))))
         
         // ===== NEO4J CONNECTIONS DATA LOGGING =====
         console.log("🔗 [Connections] ===== NEO4J CONNECTIONS DATA =====");
@@ -1414,20 +1374,13 @@ function ChapterPageInner({ params }: ChapterPageProps) {
           // Keep all filtered nodes
           const nodes = prelimNodes
           
-          // Show only links between center node and filtered nodes
-          const currentNodeIds = new Set(nodes.filter(n => n.type === "current").map(n => n.id))
+          // Keep links whose endpoints both survived filtering (multi-hop links included)
           const filteredNodeIds = new Set(nodes.map(n => n.id))
-
-          
-          const links = data.links.filter(l => {
-            const sourceId = l.source as string
-            const targetId = l.target as string
-            const isSourceCenter = currentNodeIds.has(sourceId)
-            const isTargetCenter = currentNodeIds.has(targetId)
-            const isSourceFiltered = filteredNodeIds.has(sourceId)
-            const isTargetFiltered = filteredNodeIds.has(targetId)
-            return (isSourceCenter && isTargetFiltered) || (isTargetCenter && isSourceFiltered)
-          })
+          const relationships = activeFilters.relationship
+          const links = data.links.filter(l =>
+            filteredNodeIds.has(linkEndpointId(l.source)) && filteredNodeIds.has(linkEndpointId(l.target)) &&
+            (relationships.length === 0 || relationships.includes(l.type))
+          )
           
           return { nodes, links }
         })()
@@ -1452,7 +1405,129 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       }
     }
     loadConnections()
-  }, [connectionsModalOpen, selectedCardId, book, activeChapter])
+  }, [connectionsModalOpen, selectedRefKey, book, graphDepth])
+
+  // Fetch a node's neighbors and merge them into the graph on screen
+  const handleExpandNode = async (node: GraphNode) => {
+    setExpandingNodeId(node.id)
+    setConnectionsError(null)
+    try {
+      const data = await fetchNeighbors(node.id, graphDepth)
+      setOriginalGraphData(prev => mergeGraphData([prev, data]))
+    } catch (e: any) {
+      setConnectionsError(e?.message || "Failed to expand node")
+    } finally {
+      setExpandingNodeId(null)
+    }
+  }
+
+  const handleFindPath = async (from: GraphNode, to: GraphNode) => {
+    setPathLoading(true)
+    setPathMessage(null)
+    try {
+      const data = await fetchPathBetween(from.id, to.id)
+      if (data.nodes.length === 0) {
+        setHighlightedPath(null)
+        setPathMessage(`No path between ${from.title} and ${to.title}`)
+        return
+      }
+      setOriginalGraphData(prev => mergeGraphData([prev, data]))
+      setHighlightedPath({
+        nodeIds: new Set(data.nodes.map(n => n.id)),
+        linkIds: new Set(data.links.map(l => l.id)),
+      })
+      setPathMessage(`Path of ${data.links.length} ${data.links.length === 1 ? "hop" : "hops"}`)
+      setPathSourceNode(null)
+    } catch (e: any) {
+      setPathMessage(e?.message || "Failed to find path")
+    } finally {
+      setPathLoading(false)
+    }
+  }
+
+  // Restore graph state from the URL (a shared link, or back/forward)
+  const applyGraphUrlState = (state: GraphUrlState | null) => {
+    lastGraphExploreSearchRef.current = writeGraphState("", state && { ...state, zoom: undefined })
+    if (!state) {
+      pendingGraphNodeRef.current = null
+      setConnectionsModalOpen(false)
+      resetFilterStates()
+      return
+    }
+    setGraphDepth(state.depth)
+    setActiveFilters({
+      genre: state.genre,
+      author: state.author,
+      timePeriod: state.timePeriods ?? [],
+      relationship: state.relationship,
+    })
+    setSelectedTimePeriods(state.timePeriods ?? DEFAULT_TIME_PERIODS)
+    setYearRange(state.yearRange ?? defaultYearRange)
+    setGraphZoom(state.zoom ?? null)
+    if (state.zoom) applyGraphZoom(state.zoom)
+    const node = state.node ? originalGraphData.nodes.find(n => n.id === state.node) : undefined
+    pendingGraphNodeRef.current = state.node && !node ? state.node : null
+    setSelectedNodePreview(node ?? null)
+    setConnectionsModalOpen(true)
+  }
+  // Latest applyGraphUrlState, for the popstate listener registered once below
+  const applyGraphUrlStateRef = useRef(applyGraphUrlState)
+  applyGraphUrlStateRef.current = applyGraphUrlState
+
+  useEffect(() => {
+    const state = readGraphState(window.location.search)
+    if (state) applyGraphUrlState(state)
+    setGraphUrlLoaded(true)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    const onPopState = () => applyGraphUrlStateRef.current(readGraphState(window.location.search))
+    window.addEventListener("popstate", onPopState)
+    return () => window.removeEventListener("popstate", onPopState)
+  }, [])
+
+  // Select the node named in the URL once the graph containing it has loaded
+  useEffect(() => {
+    const id = pendingGraphNodeRef.current
+    if (!id) return
+    const node = originalGraphData.nodes.find(n => n.id === id)
+    if (node) {
+      pendingGraphNodeRef.current = null
+      setSelectedNodePreview(node)
+    }
+  }, [originalGraphData])
+
+  // Write graph state to the URL. Each exploration step (filters, depth,
+  // selected node, opening or closing) is a history entry; zooming only
+  // replaces the current one.
+  useEffect(() => {
+    if (!graphUrlLoaded) return
+    const timer = setTimeout(() => {
+      const sameYears = yearRange[0] === defaultYearRange[0] && yearRange[1] === defaultYearRange[1]
+      const samePeriods = selectedTimePeriods.length === DEFAULT_TIME_PERIODS.length &&
+        selectedTimePeriods.every(p => DEFAULT_TIME_PERIODS.includes(p))
+      const state: GraphUrlState | null = connectionsModalOpen
+        ? {
+            depth: graphDepth,
+            genre: activeFilters.genre,
+            author: activeFilters.author,
+            relationship: activeFilters.relationship,
+            timePeriods: samePeriods ? undefined : selectedTimePeriods,
+            yearRange: sameYears ? undefined : yearRange,
+            zoom: graphZoom ?? undefined,
+            node: selectedNodePreview?.id ?? pendingGraphNodeRef.current ?? undefined,
+          }
+        : null
+      const search = writeGraphState(window.location.search, state)
+      if (search === window.location.search) return
+      const exploreSearch = writeGraphState("", state && { ...state, zoom: undefined })
+      const method = exploreSearch === lastGraphExploreSearchRef.current ? "replaceState" : "pushState"
+      lastGraphExploreSearchRef.current = exploreSearch
+      window.history[method]({}, "", window.location.pathname + search + window.location.hash)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [graphUrlLoaded, connectionsModalOpen, graphDepth, activeFilters, selectedTimePeriods, yearRange, defaultYearRange, graphZoom, selectedNodePreview])
 
   // Apply filters whenever filters or original data change
   useEffect(() => {
@@ -1470,19 +1545,18 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       return genrePass && authorPass && timePass
     })
     
-    // Keep all filtered nodes
-    const nodes = prelimNodes
-    
-    // Show only links between center node and filtered nodes
-    const currentNodeIds = new Set(nodes.filter(n => n.type === "current").map(n => n.id))
-    const filteredNodeIds = new Set(nodes.map(n => n.id))
-    
-    
+    const prelimNodeIds = new Set(prelimNodes.map(n => n.id))
+    const relationships = activeFilters.relationship
     const links = data.links.filter(l => {
-      const sourceId = l.source as string
-      const targetId = l.target as string
-      return filteredNodeIds.has(sourceId) && filteredNodeIds.has(targetId)
+      const relationshipPass = relationships.length === 0 || relationships.includes(l.type)
+      return relationshipPass && prelimNodeIds.has(linkEndpointId(l.source)) && prelimNodeIds.has(linkEndpointId(l.target))
     })
+
+    // With a relationship filter, drop sources left without any matching link
+    const linkedIds = new Set(links.flatMap(l => [linkEndpointId(l.source), linkEndpointId(l.target)]))
+    const nodes = relationships.length === 0
+      ? prelimNodes
+      : prelimNodes.filter(n => n.type === "current" || linkedIds.has(n.id))
     
     
     setFilteredGraphData({ nodes, links })
@@ -1514,46 +1588,254 @@ function ChapterPageInner({ params }: ChapterPageProps) {
     return s.charAt(0).toUpperCase() + s.slice(1)
   }
 
-  // Synchronized scrolling effect
-  useEffect(() => {
-    if (!scrollLocked || !leftPanelRef.current || !rightPanelRef.current) return;
+  // Versions of the chapter being read, listed when the topology modal opens
+  const witnessRef = formatRef(makeRef(book, [activeChapter]))
 
-    const leftPanel = leftPanelRef.current;
-    const rightPanel = rightPanelRef.current;
+  useEffect(() => {
+    if (!topologyModalOpen) return
+    let cancelled = false
+    setWitnessesLoading(true)
+    setWitnessError(null)
+    fetchWitnessList(witnessRef)
+      .then(list => {
+        if (cancelled) return
+        setWitnessList(list)
+        // Keep the current picks when the new chapter has them too
+        const has = (title: string) => list.some(w => w.versionTitle === title)
+        const primary = has(primaryVersion) ? primaryVersion : list[0]?.versionTitle || ""
+        const alternate = has(alternateVersion) && alternateVersion !== primary
+          ? alternateVersion
+          : list.find(w => w.versionTitle !== primary)?.versionTitle || ""
+        setPrimaryVersion(primary)
+        setAlternateVersion(alternate)
+        const kept = synopticVersions.filter(has)
+        setSynopticVersions(kept.length >= MIN_SYNOPTIC_WITNESSES
+          ? kept
+          : list.slice(0, Math.min(list.length, MIN_SYNOPTIC_WITNESSES + 1)).map(w => w.versionTitle))
+        if (!has(synopticBase)) setSynopticBase(primary)
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.error("Failed to load versions:", error)
+        setWitnessList([])
+        setWitnessError(error instanceof Error ? error.message : "Failed to load versions")
+      })
+      .finally(() => {
+        if (!cancelled) setWitnessesLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [topologyModalOpen, witnessRef])
 
-    const handleLeftScroll = () => {
-      if (scrollLocked) {
-        const scrollRatio = leftPanel.scrollTop / (leftPanel.scrollHeight - leftPanel.clientHeight);
-        const rightScrollTop = scrollRatio * (rightPanel.scrollHeight - rightPanel.clientHeight);
-        rightPanel.scrollTop = rightScrollTop;
+  // Text of the selected witnesses
+  useEffect(() => {
+    if (!topologyModalOpen) return
+    let cancelled = false
+    const load = async (title: string, set: (witness: Witness | null) => void) => {
+      const info = witnessList.find(w => w.versionTitle === title)
+      if (!info) {
+        set(null)
+        return
       }
-    };
-
-    const handleRightScroll = () => {
-      if (scrollLocked) {
-        const scrollRatio = rightPanel.scrollTop / (rightPanel.scrollHeight - rightPanel.clientHeight);
-        const leftScrollTop = scrollRatio * (leftPanel.scrollHeight - leftPanel.clientHeight);
-        leftPanel.scrollTop = leftScrollTop;
+      try {
+        const witness = await fetchWitness(witnessRef, info)
+        if (!cancelled) set(witness)
+      } catch (error) {
+        if (cancelled) return
+        console.error(`Failed to load ${title}:`, error)
+        set(null)
+        setWitnessError(error instanceof Error ? error.message : `Failed to load ${title}`)
       }
-    };
+    }
+    void load(primaryVersion, setPrimaryWitness)
+    void load(alternateVersion, setAlternateWitness)
+    return () => {
+      cancelled = true
+    }
+  }, [topologyModalOpen, witnessRef, witnessList, primaryVersion, alternateVersion])
 
-    leftPanel.addEventListener('scroll', handleLeftScroll);
-    rightPanel.addEventListener('scroll', handleRightScroll);
+  const alignedSegments = primaryWitness ? alignWitnesses(primaryWitness, alternateWitness) : []
 
+  useEffect(() => {
+    if (!topologyModalOpen || comparisonView !== "synoptic") return
+    let cancelled = false
+    const infos = synopticVersions
+      .map(title => witnessList.find(w => w.versionTitle === title))
+      .filter((info): info is WitnessInfo => Boolean(info))
+    Promise.all(infos.map(info => fetchWitness(witnessRef, info)))
+      .then(witnesses => {
+        if (!cancelled) setSynopticWitnesses(witnesses)
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.error("Failed to load witnesses:", error)
+        setWitnessError(error instanceof Error ? error.message : "Failed to load witnesses")
+      })
     return () => {
-      leftPanel.removeEventListener('scroll', handleLeftScroll);
-      rightPanel.removeEventListener('scroll', handleRightScroll);
-    };
-  }, [scrollLocked, topologyModalOpen]);
+      cancelled = true
+    }
+  }, [topologyModalOpen, comparisonView, witnessRef, witnessList, synopticVersions])
+
+  const toggleSynopticVersion = (versionTitle: string, checked: boolean) => {
+    setSynopticVersions(prev => {
+      if (!checked) return prev.filter(title => title !== versionTitle)
+      if (prev.includes(versionTitle) || prev.length >= MAX_SYNOPTIC_WITNESSES) return prev
+      // Keep the list order, so columns don't jump around as witnesses are added
+      return witnessList.map(w => w.versionTitle).filter(title => title === versionTitle || prev.includes(title))
+    })
+  }
+
+  // Keep the two version panels on the same segment while scroll is locked
+  useSegmentScrollSync([leftPanelRef, rightPanelRef], scrollLocked && topologyModalOpen && comparisonView === "parallel")
+
+
+  const {
+    annotations,
+    loading: annotationsLoading,
+    error: annotationsError,
+    create: createAnnotation,
+    update: updateAnnotation,
+    remove: removeAnnotation,
+  } = useAnnotations(normalizeBookTitle(book))
+
+  const {
+    highlights,
+    create: createHighlight,
+    recolor: recolorHighlight,
+    remove: removeHighlight,
+  } = useHighlights(normalizeBookTitle(book))
+
+  // Highlights and annotated text to mark in one language of a verse
+  const verseSpans = (verse: { chapterNumber: number; verseNumber: number }, language: "he" | "en") => {
+    const ref = formatRef(makeRef(book, [verse.chapterNumber, verse.verseNumber]))
+    return [...highlightSpans(highlights, ref, language), ...annotationSpans(annotations, ref, language)]
+  }
+
+  // Commentaries follow the verse being read while the commentary tab is open
+  const commentaryRef = rightSidebarOpen && activeRightTab === "layeredAI" && activeVerse
+    ? formatRef(makeRef(book, [activeVerse.chapter, activeVerse.verse]))
+    : null
+  const { groups: commentaryGroups, loading: commentaryLoading, error: commentaryError } = useCommentary(commentaryRef)
+  const { pinned: pinnedCommentators, togglePin: togglePinnedCommentator } = usePinnedCommentators()
+  const baseCommentaryOptions = Array.from(new Set([baseCommentary, ...commentaryGroups.map(group => group.commentator)]))
+
+  // Footnotes of every loaded verse, numbered through each chapter per language
+  const verseFootnotes = useMemo(() => {
+    const byVerse: Record<string, { he: { start: number; footnotes: NumberedFootnote[] }; en: { start: number; footnotes: NumberedFootnote[] } }> = {}
+    for (const chapter of Object.values(chaptersData)) {
+      const hebrew = numberFootnotes(chapter.verses.map(v => v.hebrewHtml))
+      const english = numberFootnotes(chapter.verses.map(v => v.englishHtml))
+      chapter.verses.forEach((v, index) => {
+        byVerse[`${v.chapterNumber}-${v.verseNumber}`] = { he: hebrew[index], en: english[index] }
+      })
+    }
+    return byVerse
+  }, [chaptersData])
+
+  // Footnotes of a verse in the languages on screen
+  const visibleFootnotes = (verse: { chapterNumber: number; verseNumber: number }) => {
+    const notes = verseFootnotes[`${verse.chapterNumber}-${verse.verseNumber}`]
+    if (!notes) return []
+    return [
+      ...(displayMode !== "english" ? notes.he.footnotes.map(footnote => ({ ...footnote, language: "he" as const })) : []),
+      ...(displayMode !== "hebrew" ? notes.en.footnotes.map(footnote => ({ ...footnote, language: "en" as const })) : []),
+    ]
+  }
+
+  const handleHighlightPick = async (color: HighlightColor) => {
+    const menu = highlightMenu
+    if (!menu) return
+    setHighlightMenu(null)
+    try {
+      if ("highlightId" in menu) {
+        await recolorHighlight(menu.highlightId, color)
+      } else {
+        await createHighlight({
+          ref: formatRef(makeRef(book, [menu.position.chapter, menu.position.verse])),
+          color,
+          ...menu.range,
+        })
+        window.getSelection()?.removeAllRanges()
+      }
+    } catch (err) {
+      console.error("Failed to save highlight:", err)
+    }
+  }
 
+  const handleHighlightRemove = async () => {
+    const menu = highlightMenu
+    if (!menu || !("highlightId" in menu)) return
+    setHighlightMenu(null)
+    try {
+      await removeHighlight(menu.highlightId)
+    } catch (err) {
+      console.error("Failed to remove highlight:", err)
+    }
+  }
+
+  // Notes starting within the selected span
+  const isAnnotationSelected = (annotation: Annotation) => {
+    const start = parseRef(annotation.ref)
+    return !!selectedRef && !!start && refIncludes(selectedRef, start.sections)
+  }
+
+  const annotationsForVerse = (position: VersePosition) =>
+    annotations.filter(annotation => annotationCovers(annotation, [position.chapter, position.verse]))
 
-  const handleAddAnnotation = (segmentId: number) => {
-    setSelectedSegment(segmentId)
+  // Text the reader selected in the Hebrew or English of a verse, if any
+  const captureAnnotationRange = (position: VersePosition): AnnotationRange | null => {
+    const card = verseRefs.current[`${position.chapter}-${position.verse}`]
+    const containers = card ? Array.from(card.querySelectorAll<HTMLElement>("[data-annotation-lang]")) : []
+    for (const container of containers) {
+      const offsets = selectionOffsets(container)
+      if (offsets) return { language: container.dataset.annotationLang === "he" ? "he" : "en", ...offsets }
+    }
+    return null
+  }
+
+  const handleAddAnnotation = (position: VersePosition) => {
+    const range = captureAnnotationRange(position)
+    // Notes attach to the selected span when the verse is part of it, otherwise to
+    // the verse alone. A text selection always anchors to its own verse.
+    if (range || !isVerseSelected(position)) {
+      setVerseSelection({ anchor: position, focus: position })
+    }
+    setAnnotationRange(range)
+    setSelectedSegment(position.verse)
     setAnnotationMode(true)
     setActiveRightTab("annotations")
     setRightSidebarOpen(true)
   }
 
+  const handleSelectAnnotation = (annotation: Annotation) => {
+    const ref = parseRef(annotation.ref)
+    if (!ref || ref.sections.length < 2) return
+    // Dapim ("2a") stay strings, numbered sections become numbers
+    const position = ([chapter, verse]: string[]) => ({
+      chapter: isDafSection(chapter) ? chapter : Number(chapter),
+      verse: Number(verse),
+    })
+    const anchor = position(ref.sections)
+    setVerseSelection({ anchor, focus: position(ref.toSections) })
+    verseRefs.current[`${anchor.chapter}-${anchor.verse}`]?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }
+
+  // Scroll to a hit of the sidebar search if its chapter is on the page, else open it
+  const handleBookSearchHit = (hit: SearchHit) => {
+    const ref = parseRef(hit.ref)
+    const [chapter, verse] = ref?.sections ?? []
+    const el = verseRefs.current[`${chapter}-${verse}`]
+    if (el) {
+      const position = { chapter: isDafSection(chapter) ? chapter : Number(chapter), verse: Number(verse) }
+      setVerseSelection({ anchor: position, focus: position })
+      el.scrollIntoView({ behavior: "smooth", block: "center" })
+    } else {
+      router.push(hitPath(hit))
+    }
+  }
+
   // Add this handler function near the component
   const handleSugyaNodeClick = (node: { id: string; sugyaLocation: string }) => {
     const el = document.getElementById(node.sugyaLocation);
@@ -1586,7 +1868,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
       try {
         setCalendarLoading(true);
         setCalendarError(null);
-        const res = await fetch("https://www.sefaria.org/api/calendars", { cache: "no-store" });
+        const res = await fetch("/api/calendars", { cache: "no-store" });
         if (!res.ok) throw new Error(`Calendars request failed: ${res.status}`);
         const data = await res.json();
         setCalendarItems(Array.isArray(data?.calendar_items) ? data.calendar_items : []);
@@ -1612,7 +1894,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
 
     // Determine the chapter we should be on from activeChapter (driven by detection)
     const current = activeChapter
-    const numericCurrent = getNumericChapter(current)
+    const numericCurrent = sectionNumber(current)
     if (!numericCurrent) return
 
     // Require prev (if >1), current, and next to be present
@@ -1656,36 +1938,170 @@ function ChapterPageInner({ params }: ChapterPageProps) {
     targetEl.scrollIntoView({ behavior: 'smooth', block: 'center' })
   }, [chaptersData, activeChapter, targetVerseFromUrl])
 
-  // Helper function to capitalize each word in book name
-  const capitalizeBookName = (bookName: string): string => {
-    return bookName
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join('_')
-  }
-
   // Update URL when the detected active verse changes (debounced by rAF in observer)
   useEffect(() => {
-    if (!activeVerse) return
-    const capitalizedBook = capitalizeBookName(book)
-    const target = `/${capitalizedBook}.${activeVerse.chapter}.${activeVerse.verse}`
+    const target = selectedRef && isRangeRef(selectedRef)
+      ? refToPath(selectedRef)
+      : activeVerse ? refToPath(makeRef(book, [activeVerse.chapter, activeVerse.verse])) : null
+    if (!target) return
     try {
       if (typeof window !== 'undefined') {
         // If we're already at this path, replace instead of push to avoid history spam
         if (window.location.pathname + window.location.hash !== target) {
           const method = (window.history.state && window.history.state.idx > 0) ? 'replaceState' : 'pushState'
-          window.history[method as 'replaceState' | 'pushState']({}, '', target)
+          // Keep the query string, which carries the connections graph state
+          window.history[method as 'replaceState' | 'pushState']({}, '', target + window.location.search)
         }
       }
     } catch {}
-  }, [activeVerse, book])
+  }, [activeVerse, book, selectedRefKey])
 
-  // Sync selected card for Dynamic Intertextual Graph with the scroll-detected active verse
+  // Sync selected verse for Dynamic Intertextual Graph with the scroll-detected active verse,
+  // unless the reader has selected a multi-verse span
   useEffect(() => {
     if (!activeVerse) return
-    setSelectedCardId(activeVerse.verse)
+    setVerseSelection(prev => {
+      if (prev && compareVersePositions(prev.anchor, prev.focus) !== 0) return prev
+      return { anchor: activeVerse, focus: activeVerse }
+    })
   }, [activeVerse])
 
+  // Remember which chapters the selected span covers so pruning keeps them loaded
+  useEffect(() => {
+    selectionChaptersRef.current = selectedSpan
+      ? sectionsBetween(selectedSpan.start.chapter, selectedSpan.end.chapter)
+      : []
+  }, [selectedRefKey])
+
+  // Select and load a range opened from the URL, e.g. /Genesis.1.3-2.4
+  useEffect(() => {
+    const { chapter: fromChapter, verse: fromVerse, toChapter, toVerse } = urlParsedData
+    if (fromChapter == null || toChapter == null || fromVerse == null || toVerse == null) return
+    const anchor = { chapter: fromChapter, verse: fromVerse }
+    const focus = { chapter: toChapter, verse: toVerse }
+    if (compareVersePositions(anchor, focus) === 0) return
+    setVerseSelection({ anchor, focus })
+    pendingRangeScrollRef.current = true
+    const run = async () => {
+      // The first chapter is loaded by the initial fetch effect
+      for (const section of sectionsBetween(fromChapter, toChapter).slice(1)) {
+        await fetchChapter(section)
+      }
+    }
+    void run()
+  }, [urlParsedData])
+
+  // Once every chapter of a range opened from the URL is loaded, bring the whole range into view
+  useEffect(() => {
+    if (!pendingRangeScrollRef.current || !selectedSpan) return
+    const sc = scrollerRef.current
+    const startEl = verseRefs.current[`${selectedSpan.start.chapter}-${selectedSpan.start.verse}`]
+    const endEl = verseRefs.current[`${selectedSpan.end.chapter}-${selectedSpan.end.verse}`]
+    if (!sc || !startEl || !endEl) return
+    pendingRangeScrollRef.current = false
+    hasDoneInitialScrollRef.current = true
+    requestAnimationFrame(() => {
+      const spanHeight = endEl.offsetTop + endEl.offsetHeight - startEl.offsetTop
+      // Center the span when it fits, otherwise start at its first verse
+      const top = spanHeight < sc.clientHeight
+        ? startEl.offsetTop - (sc.clientHeight - spanHeight) / 2
+        : startEl.offsetTop
+      isProgrammaticScrollRef.current = true
+      sc.scrollTo({ top: Math.max(0, top), behavior: "smooth" })
+      setTimeout(() => {
+        isProgrammaticScrollRef.current = false
+      }, 900)
+    })
+  }, [chaptersData, selectedRefKey])
+
+  // The highlight palette is placed in the viewport, so it goes away on scroll
+  useEffect(() => {
+    if (!highlightMenu) return
+    const close = () => setHighlightMenu(null)
+    window.addEventListener("scroll", close, true)
+    return () => window.removeEventListener("scroll", close, true)
+  }, [highlightMenu])
+
+  // End a drag selection even when the mouse is released outside a verse card;
+  // Escape collapses a span back to its focus verse
+  useEffect(() => {
+    const onMouseUp = () => {
+      dragAnchorRef.current = null
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return
+      setHighlightMenu(null)
+      setVerseSelection(prev => (prev ? { anchor: prev.focus, focus: prev.focus } : prev))
+    }
+    window.addEventListener("mouseup", onMouseUp)
+    window.addEventListener("keydown", onKeyDown)
+    return () => {
+      window.removeEventListener("mouseup", onMouseUp)
+      window.removeEventListener("keydown", onKeyDown)
+    }
+  }, [])
+
+  // Shift-click extends the selection; pressing on one verse and dragging to another selects the span
+  const handleVerseMouseDown = (position: VersePosition, e: React.MouseEvent) => {
+    if (e.button !== 0) return
+    if (e.shiftKey) e.preventDefault() // keep the browser from extending a text selection
+    dragAnchorRef.current = e.shiftKey && verseSelection ? verseSelection.anchor : position
+    dragMovedRef.current = false
+  }
+
+  const handleVerseMouseEnter = (position: VersePosition, e: React.MouseEvent) => {
+    const anchor = dragAnchorRef.current
+    if (!anchor || (e.buttons & 1) === 0) return
+    dragMovedRef.current = true
+    setVerseSelection({ anchor, focus: position })
+  }
+
+  const handleVerseClick = (position: VersePosition, e: React.MouseEvent) => {
+    dragAnchorRef.current = null
+    // Selected text or a highlight inside the verse gets the color palette
+    const range = dragMovedRef.current ? null : captureAnnotationRange(position)
+    const mark = (e.target as HTMLElement).closest<HTMLElement>("mark.verse-highlight")
+    if (range) {
+      const rect = window.getSelection()!.getRangeAt(0).getBoundingClientRect()
+      setHighlightMenu({ x: rect.left + rect.width / 2, y: rect.top, position, range })
+    } else if (mark?.dataset.spanId) {
+      const highlight = highlights.find(h => h.id === mark.dataset.spanId)
+      const rect = mark.getBoundingClientRect()
+      if (highlight) setHighlightMenu({ x: rect.left + rect.width / 2, y: rect.top, highlightId: highlight.id, color: highlight.color })
+    } else {
+      setHighlightMenu(null)
+    }
+    if (dragMovedRef.current) {
+      dragMovedRef.current = false
+      window.getSelection()?.removeAllRanges()
+    } else if (e.shiftKey && verseSelection) {
+      setVerseSelection({ anchor: verseSelection.anchor, focus: position })
+    } else {
+      setVerseSelection({ anchor: position, focus: position })
+    }
+    setSelectedSegment(position.verse)
+    setRightSidebarOpen(true)
+  }
+
+  // Copy the selected span as text (in the current display mode) followed by its ref, or as a link
+  const handleCopySelection = async (what: "text" | "link") => {
+    if (!selectedRef) return
+    const payload = what === "link"
+      ? `${window.location.origin}${refToPath(selectedRef)}`
+      : [
+          ...getSelectedVerses().map(v => [
+            displayMode !== "english" ? stripHtml(v.hebrew) : "",
+            displayMode !== "hebrew" ? stripHtml(v.english) : "",
+          ].filter(Boolean).join("\n")),
+          `(${formatRef(selectedRef)})`,
+        ].join("\n\n")
+    try {
+      await navigator.clipboard.writeText(payload)
+    } catch (e) {
+      console.error("Failed to copy selection:", e)
+    }
+  }
+
   // Detect active verse centered in the scroll container
   useEffect(() => {
     const scroller = scrollerRef.current
@@ -1705,9 +2121,9 @@ function ChapterPageInner({ params }: ChapterPageProps) {
           const targetRect = targetEl.getBoundingClientRect()
           // If target verse is at least partially visible in viewport
           if (targetRect.bottom > viewportTop && targetRect.top < viewportBottom) {
-            const c = Number(targetEl.dataset?.chapter)
+            const c = readerSection(targetEl.dataset?.chapter ?? "")
             const v = Number(targetEl.dataset?.verse || targetEl.dataset?.paragraphId)
-            if (Number.isFinite(c) && Number.isFinite(v)) {
+            if (sectionNumber(c) !== null && Number.isFinite(v)) {
               setActiveVerse(prev => (prev && prev.chapter === c && prev.verse === v) ? prev : { chapter: c, verse: v })
               setActiveChapter(prevC => (prevC === c ? prevC : c))
               setHasScrolledToTarget(true) // Mark that we've found the target verse
@@ -1728,9 +2144,9 @@ function ChapterPageInner({ params }: ChapterPageProps) {
         if (!best || dist < best.dist) best = { el, dist }
       }
       if (best) {
-        const c = Number(best.el.dataset?.chapter)
+        const c = readerSection(best.el.dataset?.chapter ?? "")
         const v = Number(best.el.dataset?.verse || best.el.dataset?.paragraphId)
-        if (Number.isFinite(c) && Number.isFinite(v)) {
+        if (sectionNumber(c) !== null && Number.isFinite(v)) {
           setActiveVerse(prev => (prev && prev.chapter === c && prev.verse === v) ? prev : { chapter: c, verse: v })
           // If chapter changed, update activeChapter to drive adjacent preloading and pruning
           setActiveChapter(prevC => (prevC === c ? prevC : c))
@@ -1860,10 +2276,77 @@ function ChapterPageInner({ params }: ChapterPageProps) {
 
                 {/* Search */}
               <div className="pt-8 pl-6 pr-6 border-t border-slate-200">
-                <div className="relative">
+                <form
+                  className="relative"
+                  onSubmit={e => {
+                    e.preventDefault()
+                    const text = sidebarSearch.trim()
+                    if (text) router.push(searchUrl({ text, book: normalizeBookTitle(book) }))
+                  }}
+                >
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
-                  <Input placeholder="Search texts..." className="pl-10" />
-                </div>
+                  <Input
+                    placeholder={`Search ${normalizeBookTitle(book)}...`}
+                    className="pl-10"
+                    value={sidebarSearch}
+                    onChange={e => setSidebarSearch(e.target.value)}
+                  />
+                </form>
+                {(() => {
+                  const sections = schemaSections(sectionSchema)
+                  if (sections.length === 0 || sections.every(section => indexedChapters.includes(section))) return null
+                  return (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="mt-2 w-full justify-start text-xs text-slate-600"
+                      disabled={!!downloadProgress}
+                      onClick={() => void downloadBook(sections)}
+                    >
+                      <Download className="w-3 h-3 mr-2" />
+                      {downloadProgress
+                        ? `Downloading ${downloadProgress.done}/${downloadProgress.total}…`
+                        : `Download ${normalizeBookTitle(book)} for offline search`}
+                    </Button>
+                  )
+                })()}
+                {sidebarSearch.trim() && (
+                  <div className="mt-3 space-y-2">
+                    <div className="text-xs text-slate-500">
+                      {bookSearchResults
+                        ? `${bookSearchResults.total} match${bookSearchResults.total === 1 ? "" : "es"} in ${indexedChapters.length} loaded chapter${indexedChapters.length === 1 ? "" : "s"}`
+                        : "Searching…"}
+                    </div>
+                    {bookSearchError && <div className="text-xs text-red-600">{bookSearchError}</div>}
+                    <ul className="max-h-80 overflow-y-auto space-y-1">
+                      {bookSearchResults?.hits.map((hit, index) => (
+                        <li key={`${hit.ref}-${hit.language}-${index}`}>
+                          <button
+                            type="button"
+                            className="w-full text-left rounded px-2 py-1 hover:bg-slate-100"
+                            onClick={() => handleBookSearchHit(hit)}
+                          >
+                            <div className="text-xs font-medium text-blue-700">{hit.ref}</div>
+                            <div
+                              className={`text-sm text-slate-700 ${hit.language === "he" ? "font-hebrew text-right" : ""}`}
+                              dir={hit.language === "he" ? "rtl" : "ltr"}
+                            >
+                              {hit.snippets[0]?.map((part, i) =>
+                                part.match ? <mark key={i} className="bg-yellow-200 rounded px-0.5">{part.text}</mark> : <span key={i}>{part.text}</span>
+                              )}
+                            </div>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <Link
+                      href={searchUrl({ text: sidebarSearch.trim(), book: normalizeBookTitle(book) })}
+                      className="block text-xs text-blue-700 hover:underline"
+                    >
+                      Search all of {normalizeBookTitle(book)}
+                    </Link>
+                  </div>
+                )}
               
                 {/* Time Period Filter */}
                 <div className="pt-8 pl-2 pr-2">
@@ -1987,6 +2470,42 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                     English
                   </button>
                 </div>
+                {/* Footnote settings */}
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button className="text-md font-bold" variant="outline" size="sm">
+                      <StickyNote className="w-4 h-4 mr-2" />
+                      Notes
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent align="end" className="w-64 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <label htmlFor="show-footnotes" className="text-sm font-medium">Show footnotes</label>
+                      <Switch id="show-footnotes" checked={showFootnotes} onCheckedChange={setShowFootnotes} />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-slate-700">Open as</span>
+                      <Select value={footnoteDisplay} onValueChange={v => setFootnoteDisplay(v as "tooltip" | "side")} disabled={!showFootnotes}>
+                        <SelectTrigger className="w-32 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="tooltip">Tooltip</SelectItem>
+                          <SelectItem value="side">Side note</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="footnotes-chapter-end"
+                        checked={footnotesAtChapterEnd}
+                        onCheckedChange={checked => setFootnotesAtChapterEnd(checked === true)}
+                        disabled={!showFootnotes}
+                      />
+                      <label htmlFor="footnotes-chapter-end" className="text-sm text-slate-700">List at the end of each chapter</label>
+                    </div>
+                  </PopoverContent>
+                </Popover>
                 {/* Feature 2: Compare Versions */}
                 <Button
                   className="text-md font-bold"
@@ -2009,12 +2528,27 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                 <div ref={topTriggerRef} className="h-4" />
 
                 {/* Render all loaded chapters */}
-                <h1 className="text-5xl font-bold mb-4 text-slate-900 text-center mt-4">{book.charAt(0).toUpperCase() + book.slice(1)}</h1>
+                <h1 className="text-5xl font-bold mb-4 text-slate-900 text-center mt-4">{normalizeBookTitle(book)}</h1>
+                {(() => {
+                  const previous = continuation("prev")
+                  return previous && (
+                    <div className="text-center mb-4">
+                      <Link href={refToPath(previous)} className="text-sm text-blue-700 hover:underline">
+                        ← {formatRef(previous)}
+                      </Link>
+                    </div>
+                  )
+                })()}
                 {Object.entries(chaptersData)
-                  .sort(([a], [b]) => parseInt(a) - parseInt(b))
+                  .sort(([a], [b]) => compareSections(a, b))
                   .map(([chapterNum, chapterData]) => (
                     <div key={chapterNum} className="mb-8">
-                      <h1 className="text-3xl font-bold mb-4 text-slate-900 text-center mt-16 mb-8">Chapter {chapterNum}</h1>
+                      <h1
+                        className={`text-3xl font-bold mb-4 text-slate-900 text-center mt-16 mb-8 ${labelLanguage === "he" ? "font-hebrew" : ""}`}
+                        dir={labelLanguage === "he" ? "rtl" : "ltr"}
+                      >
+                        {sectionLabel(sectionSchema, 0, chapterNum, labelLanguage)}
+                      </h1>
                       <hr/>
                       {chapterData.loading ? (
                         <div className="flex items-center justify-center h-32">
@@ -2039,11 +2573,9 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                         data-chapter={verse.chapterNumber}
                         data-verse={verse.verseNumber}
                         className="group cursor-pointer transition-all duration-200 relative"
-                        onClick={() => {
-                          setSelectedCardId(verse.verseNumber)
-                          setSelectedSegment(verse.verseNumber)
-                          setRightSidebarOpen(true)
-                        }}
+                        onMouseDown={(e) => handleVerseMouseDown({ chapter: verse.chapterNumber, verse: verse.verseNumber }, e)}
+                        onMouseEnter={(e) => handleVerseMouseEnter({ chapter: verse.chapterNumber, verse: verse.verseNumber }, e)}
+                        onClick={(e) => handleVerseClick({ chapter: verse.chapterNumber, verse: verse.verseNumber }, e)}
                         whileHover={{ scale: 1.01 }}
                       >
                         {/* Add Note Button - now outside the card, top-right */}
@@ -2052,9 +2584,14 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                             size="sm"
                             variant="outline"
                             className="absolute top-2 -right-24 z-10 font-bold text-md"
+                            // Keep any text selected in the verse, so the note can anchor to it
+                            onMouseDown={e => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                            }}
                             onClick={e => {
                               e.stopPropagation();
-                              handleAddAnnotation(verse.verseNumber);
+                              handleAddAnnotation({ chapter: verse.chapterNumber, verse: verse.verseNumber });
                             }}
                           >
                             <Plus className="w-3 h-3 mr-1" />
@@ -2064,15 +2601,46 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                         <div 
                           data-paragraph-id={verse.verseNumber}
                           className={`mb-4 shadow-md rounded-xl p-4 pt-0 border-2 transition-all duration-200 relative ${
-                            selectedCardId === verse.verseNumber
+                            isVerseSelected({ chapter: verse.chapterNumber, verse: verse.verseNumber })
                               ? 'bg-blue-100 border-blue-500'
                               : 'bg-white border-transparent hover:bg-gray-100 hover:border-blue-200'
                           }`}
                         >
                           {/* Verse Number - Upper Left Inside Card */}
-                          <span className="absolute top-2 -left-8 text-sm font-bold rounded px-2 py-1 bg-blue-500 text-white z-10">
-                            {verse.verseNumber}
+                          <span
+                            className={`absolute top-2 -left-8 text-sm font-bold rounded px-2 py-1 bg-blue-500 text-white z-10 ${labelLanguage === "he" ? "font-hebrew" : ""}`}
+                            title={sectionLabel(sectionSchema, 1, verse.verseNumber, labelLanguage)}
+                          >
+                            {formatSectionNumber(sectionSchema, 1, verse.verseNumber, labelLanguage)}
                           </span>
+                          {/* Notes on this verse */}
+                          {(() => {
+                            const verseAnnotations = annotationsForVerse({ chapter: verse.chapterNumber, verse: verse.verseNumber });
+                            if (verseAnnotations.length === 0) return null;
+                            return (
+                              <button
+                                type="button"
+                                className="absolute top-2 right-2 z-10 flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-700 hover:bg-slate-200"
+                                title={verseAnnotations.map(a => `${ANNOTATION_TYPES[a.type].label}: ${a.text}`).join("\n")}
+                                onMouseDown={e => e.stopPropagation()}
+                                onClick={e => {
+                                  e.stopPropagation();
+                                  setVerseSelection({
+                                    anchor: { chapter: verse.chapterNumber, verse: verse.verseNumber },
+                                    focus: { chapter: verse.chapterNumber, verse: verse.verseNumber },
+                                  });
+                                  setActiveRightTab("annotations");
+                                  setRightSidebarOpen(true);
+                                }}
+                              >
+                                <MessageSquare className="w-3 h-3" />
+                                {verseAnnotations.length}
+                                {Array.from(new Set(verseAnnotations.map(a => a.type))).map(type => (
+                                  <span key={type} className="w-2 h-2 rounded-full" style={{ backgroundColor: ANNOTATION_TYPES[type].color }} />
+                                ))}
+                              </button>
+                            );
+                          })()}
                           <CardContent className="p-0 mt-6">
                             <div className="space-y-4">
                               {/* Hebrew Text */}
@@ -2080,18 +2648,49 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                                 <div 
                                   className="text-right font-hebrew text-xl leading-relaxed text-slate-800" 
                                   dir="rtl"
-                                  dangerouslySetInnerHTML={{ __html: verse.hebrewHtml }}
-                                />
+                                  data-annotation-lang="he"
+                                >
+                                  <SefariaHtml
+                                    html={verse.hebrewHtml}
+                                    spans={verseSpans(verse, "he")}
+                                    onFootnoteHover={footnoteDisplay === "tooltip" ? setFootnoteTooltip : undefined}
+                                    footnoteStart={verseFootnotes[`${verse.chapterNumber}-${verse.verseNumber}`]?.he.start}
+                                    hideFootnotes={!showFootnotes}
+                                  />
+                                </div>
                               )}
                               {/* English Text */}
                               {(displayMode === "english" || displayMode === "bilingual") && (
                                 <div 
                                   className="text-left text-lg leading-relaxed text-slate-700 font-times" 
                                   dir="ltr"
-                                  dangerouslySetInnerHTML={{ __html: verse.englishHtml }}
-                                />
+                                  data-annotation-lang="en"
+                                >
+                                  <SefariaHtml
+                                    html={verse.englishHtml}
+                                    spans={verseSpans(verse, "en")}
+                                    onFootnoteHover={footnoteDisplay === "tooltip" ? setFootnoteTooltip : undefined}
+                                    footnoteStart={verseFootnotes[`${verse.chapterNumber}-${verse.verseNumber}`]?.en.start}
+                                    hideFootnotes={!showFootnotes}
+                                  />
+                                </div>
                               )}
                             </div>
+                            {/* Side notes */}
+                            {showFootnotes && footnoteDisplay === "side" && visibleFootnotes(verse).length > 0 && (
+                              <div className="mt-3 border-l-2 border-blue-200 pl-3 space-y-1">
+                                {visibleFootnotes(verse).map(footnote => (
+                                  <p
+                                    key={`${footnote.language}-${footnote.number}`}
+                                    className={`text-sm text-slate-600 ${footnote.language === "he" ? "font-hebrew text-right" : ""}`}
+                                    dir={footnote.language === "he" ? "rtl" : "ltr"}
+                                  >
+                                    <sup className="text-blue-600 font-medium mr-1">{footnote.number}</sup>
+                                    {footnote.text}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
                             {/* AI Insights - Feature 5 */}
                             {aiLayering && (
                               <div className="bg-blue-50 border-l-4 border-blue-400 p-3 mt-4">
@@ -2105,11 +2704,53 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                         </div>
                       </motion.div>
                     ))}
+                          {/* Chapter notes */}
+                          {showFootnotes && footnotesAtChapterEnd && (() => {
+                            const notes = chapterData.verses.flatMap(verse =>
+                              visibleFootnotes(verse).map(footnote => ({ ...footnote, verse: verse.verseNumber }))
+                            );
+                            if (notes.length === 0) return null;
+                            return (
+                              <div className="mt-8 border-t border-slate-200 pt-4">
+                                <h2 className="text-lg font-semibold text-slate-900 mb-3">Notes</h2>
+                                <ol className="space-y-2">
+                                  {notes.map(footnote => (
+                                    <li
+                                      key={`${footnote.language}-${footnote.number}`}
+                                      className={`text-sm text-slate-700 ${footnote.language === "he" ? "font-hebrew text-right" : ""}`}
+                                      dir={footnote.language === "he" ? "rtl" : "ltr"}
+                                    >
+                                      <button
+                                        type="button"
+                                        className="text-blue-600 font-medium hover:underline mx-1"
+                                        title={sectionLabel(sectionSchema, 1, footnote.verse, labelLanguage)}
+                                        onClick={() => verseRefs.current[`${chapterNum}-${footnote.verse}`]?.scrollIntoView({ behavior: "smooth", block: "center" })}
+                                      >
+                                        {footnote.number}
+                                      </button>
+                                      {footnote.text}
+                                    </li>
+                                  ))}
+                                </ol>
+                              </div>
+                            );
+                          })()}
                         </div>
                       )}
                     </div>
                   ))}
 
+                {(() => {
+                  const next = continuation("next")
+                  return next && (
+                    <div className="text-center my-8">
+                      <Link href={refToPath(next)} className="font-medium text-blue-700 hover:underline">
+                        Continue to {formatRef(next)} →
+                      </Link>
+                    </div>
+                  )
+                })()}
+
                 {/* Bottom loading trigger */}
                 <div ref={bottomTriggerRef} className="h-4" />
               </div>
@@ -2251,21 +2892,31 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                   {/* Tab Content */}
                   <TabsContent value="connections" className="mt-0">
                     <motion.div key="connections-content" initial={{ opacity: 0, scale: 0.98 }} animate={{ opacity: 1, scale: 1 }} transition={{ duration: 0.2 }} className="p-4">
-                      {selectedCardId !== null && (
+                      {selectedRef && (
                         <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                           <p className="text-md text-blue-800 font-medium">
-                            Selected: {book.charAt(0).toUpperCase() + book.slice(1)} {activeChapter}:{selectedCardId}
+                            Selected: {formatRef(selectedRef)}
                           </p>
                           <p className="text-sm text-blue-600 mt-1">
-                            Click "Connections" to view relationships
+                            Click "Connections" to view relationships. Shift-click or drag across verses to select a range.
                           </p>
+                          <div className="flex gap-2 mt-2">
+                            <Button variant="outline" size="sm" onClick={() => handleCopySelection("text")}>
+                              <Copy className="w-3 h-3 mr-1" />
+                              Copy text
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => handleCopySelection("link")}>
+                              <LinkIcon className="w-3 h-3 mr-1" />
+                              Copy link
+                            </Button>
+                          </div>
                         </div>
                       )}
                       <Button
                         onClick={() => setConnectionsModalOpen(true)}
-                        disabled={selectedCardId === null}
+                        disabled={!selectedRef}
                         className={`w-full ${
-                          selectedCardId === null
+                          !selectedRef
                             ? 'bg-gray-400 cursor-not-allowed text-white'
                             : 'bg-blue-600 hover:bg-blue-700 text-white'
                         }`}
@@ -2273,7 +2924,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                         <Network className="w-4 h-4 mr-2" />
                         Connections
                       </Button>
-                      {selectedCardId === null && (
+                      {!selectedRef && (
                         <p className="text-xs text-gray-500 mt-1 text-center">
                           Select a card to enable connections
                         </p>
@@ -2309,9 +2960,9 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                             value={baseCommentary}
                             onChange={e => setBaseCommentary(e.target.value)}
                           >
-                            <option value="Rashi">Rashi</option>
-                            <option value="Ramban">Ramban</option>
-                            <option value="Maharal">Maharal</option>
+                            {baseCommentaryOptions.map(commentator => (
+                              <option key={commentator} value={commentator}>{commentator}</option>
+                            ))}
                           </select>
                         </div>
                         <div>
@@ -2327,6 +2978,16 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                           </select>
                         </div>
                       </div>
+                      <CommentaryPanel
+                        verseRef={commentaryRef}
+                        groups={commentaryGroups}
+                        loading={commentaryLoading}
+                        error={commentaryError}
+                        displayMode={displayMode}
+                        pinned={pinnedCommentators}
+                        onTogglePin={togglePinnedCommentator}
+                        baseCommentator={baseCommentary}
+                      />
                     </motion.div>
                   </TabsContent>
 
@@ -2336,7 +2997,19 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                         <Switch checked={aiLayeredEnabled} onCheckedChange={setAiLayeredEnabled} id="ai-layered-toggle" />
                         <label htmlFor="ai-layered-toggle" className="ml-2 text-sm font-medium">Layered AI View</label>
                       </div>
-                      <p className="text-sm text-gray-600">View and manage annotations for this text.</p>
+                      <AnnotationsPanel
+                        annotations={annotations}
+                        loading={annotationsLoading}
+                        error={annotationsError}
+                        currentRef={selectedRefKey}
+                        range={annotationRange}
+                        onClearRange={() => setAnnotationRange(null)}
+                        onCreate={createAnnotation}
+                        onUpdate={updateAnnotation}
+                        onDelete={removeAnnotation}
+                        onSelect={handleSelectAnnotation}
+                        isCurrent={isAnnotationSelected}
+                      />
                     </motion.div>
                   </TabsContent>
 
@@ -2412,6 +3085,36 @@ function ChapterPageInner({ params }: ChapterPageProps) {
         )}
       </AnimatePresence>
 
+      {/* Footnote Tooltip, for verse text and the version comparison */}
+      {footnoteTooltip && (
+        <div 
+          className="fixed z-[60] bg-slate-900 text-white p-3 rounded-lg shadow-lg max-w-xs"
+          style={{
+            left: footnoteTooltip.x + 10,
+            top: footnoteTooltip.y - 10,
+            pointerEvents: 'none'
+          }}
+        >
+          <div className="text-xs font-medium mb-1">Footnote {footnoteTooltip.id}</div>
+          <div className="text-xs text-slate-200">{footnoteTooltip.text}</div>
+        </div>
+      )}
+
+      {highlightMenu && (
+        <HighlightToolbar
+          x={highlightMenu.x}
+          y={highlightMenu.y}
+          activeColor={"highlightId" in highlightMenu ? highlightMenu.color : undefined}
+          onPick={handleHighlightPick}
+          onAddNote={"position" in highlightMenu ? () => {
+            handleAddAnnotation(highlightMenu.position)
+            setHighlightMenu(null)
+          } : undefined}
+          onRemove={"highlightId" in highlightMenu ? handleHighlightRemove : undefined}
+          onClose={() => setHighlightMenu(null)}
+        />
+      )}
+
       {/* Feature 10: Calendar Drawer */}
       <AnimatePresence>
         {calendarDrawerOpen && (
@@ -2439,7 +3142,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
             className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center"
             onClick={() => {
               setConnectionsModalOpen(false)
-              setSelectedCardId(null) // Clear selection when modal closes
+              setVerseSelection(null) // Clear selection when modal closes
               resetFilterStates() // Reset all filter settings
             }}
           >
@@ -2467,6 +3170,24 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                         <Maximize2 className="w-4 h-4" />
                       </Button>
                     </div>
+                    <Select value={String(graphDepth)} onValueChange={(value) => setGraphDepth(Number(value))}>
+                      <SelectTrigger className="w-28 h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: MAX_GRAPH_DEPTH }, (_, i) => i + 1).map(depth => (
+                          <SelectItem key={depth} value={String(depth)}>
+                            {depth} {depth === 1 ? "hop" : "hops"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <GraphExportMenu
+                      data={filteredGraphData}
+                      getSvg={() => svgSelectionRef.current?.node()}
+                      title={selectedRef ? formatRef(selectedRef) : book}
+                      filters={{ depth: graphDepth, ...activeFilters, timePeriods: selectedTimePeriods, yearRange }}
+                    />
                     <Button
                       variant="outline"
                       size="sm"
@@ -2480,7 +3201,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                       size="sm"
                       onClick={() => {
                         setConnectionsModalOpen(false)
-                        setSelectedCardId(null) // Clear selection when modal closes
+                        setVerseSelection(null) // Clear selection when modal closes
                         resetFilterStates() // Reset all filter settings
                       }}
                     >
@@ -2512,27 +3233,21 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                 )}
                 
                 {/* Connection Type Legend */}
-                <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg">
-                  <h4 className="text-sm font-semibold text-slate-900 mb-2">Connection Types</h4>
-                  <div className="space-y-1">
-                    <div className="flex items-center space-x-2">
-                      <div className="w-3 h-3 rounded-full bg-blue-600"></div>
-                      <span className="text-xs text-slate-700">Halakhic</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-3 h-3 rounded-full bg-red-600"></div>
-                      <span className="text-xs text-slate-700">Aggadic</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-3 h-3 rounded-full bg-gray-600"></div>
-                      <span className="text-xs text-slate-700">Lexical</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-3 h-2 rounded-full bg-emerald-600"></div>
-                      <span className="text-xs text-slate-700">Responsa</span>
+                {relationshipOptions.length > 0 && (
+                  <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg">
+                    <h4 className="text-sm font-semibold text-slate-900 mb-2">Connection Types</h4>
+                    <div className="space-y-1">
+                      {relationshipOptions.map(type => (
+                        <div key={type} className="flex items-center space-x-2">
+                          <svg width="20" height="6" aria-hidden="true">
+                            <line x1="0" y1="3" x2="20" y2="3" stroke={RELATIONSHIP_STYLES[type].color} strokeWidth="2" strokeDasharray={RELATIONSHIP_STYLES[type].dash} />
+                          </svg>
+                          <span className="text-xs text-slate-700">{RELATIONSHIP_STYLES[type].label}</span>
+                        </div>
+                      ))}
                     </div>
                   </div>
-                </div>
+                )}
 
                 {/* Highlight Legend */}
                 {showDifferences && (
@@ -2565,6 +3280,40 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                   >
                     <h3 className="font-semibold text-slate-900 mb-4">Filters</h3>
                     
+                    {/* Relationship Type Filter */}
+                    <div className="mb-6">
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="font-medium text-slate-900">Relationship</h4>
+                        <button
+                          className="text-xs text-blue-600 hover:underline"
+                          onClick={() => setActiveFilters(prev => ({ ...prev, relationship: [] }))}
+                        >
+                          All
+                        </button>
+                      </div>
+                      <div className="space-y-2">
+                        {relationshipOptions.map((type) => {
+                          const checked = activeFilters.relationship.length === 0 || activeFilters.relationship.includes(type)
+                          return (
+                            <label key={type} className={`flex items-center space-x-2 rounded-lg border px-3 py-2 text-sm transition ${checked ? "bg-blue-50 border-blue-200" : "bg-white hover:bg-slate-50 border-slate-200"}`}>
+                              <Checkbox
+                                id={`relationship-${type}`}
+                                checked={activeFilters.relationship.includes(type)}
+                                onCheckedChange={(isOn) => {
+                                  setActiveFilters(prev => {
+                                    if (isOn) return { ...prev, relationship: Array.from(new Set([...prev.relationship, type])) }
+                                    return { ...prev, relationship: prev.relationship.filter(r => r !== type) }
+                                  })
+                                }}
+                              />
+                              <span className="w-3 h-0.5" style={{ backgroundColor: RELATIONSHIP_STYLES[type].color }} />
+                              <span>{RELATIONSHIP_STYLES[type].label}</span>
+                            </label>
+                          )
+                        })}
+                      </div>
+                    </div>
+
                     {/* Genre Filter */}
                     <div className="mb-6">
                       <div className="flex items-center justify-between mb-3">
@@ -2711,7 +3460,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
 
                     <div className="border-t border-slate-200 pt-4 mt-6 flex justify-between">
                       <Button variant="ghost" onClick={() => {
-                        setActiveFilters({ genre: [], author: [], timePeriod: [] })
+                        setActiveFilters({ genre: [], author: [], timePeriod: [], relationship: [] })
                         setYearRange(defaultYearRange)
                       }}>Clear All</Button>
                       <Button onClick={() => setFilterDrawerOpen(false)}>Apply</Button>
@@ -2747,6 +3496,12 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                         <h3 className="font-large text-slate-900">{selectedNodePreview.title}</h3>
                       </div>
                       <p className="text-sm text-slate-600">{selectedNodePreview.snippet}</p>
+                      {selectedNodePreview.type !== "current" && (
+                        <div>
+                          <span className="text-xs text-slate-500">Category: </span>
+                          <span className="text-sm text-slate-700">{selectedNodePreview.category || NODE_TYPE_STYLES[selectedNodePreview.type].label}</span>
+                        </div>
+                      )}
                       {selectedNodePreview.metadata.genre && (
                         <div>
                           <span className="text-xs text-slate-500">Genre: </span>
@@ -2768,10 +3523,9 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                       {selectedNodePreview.content && (
                         <div>
                           <span className="text-xs text-slate-500">Content: </span>
-                          <span className="text-sm text-slate-700"
-                            dir="ltr"
-                            dangerouslySetInnerHTML={{ __html: selectedNodePreview.content }}
-                          />
+                          <span className="text-sm text-slate-700" dir="ltr">
+                            <SefariaHtml html={selectedNodePreview.content} onFootnoteHover={setFootnoteTooltip} />
+                          </span>
                         </div>
                       )}
                     </>
@@ -2783,6 +3537,57 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                       </div>
                     </>
                   )}
+                  {selectedNodePreview && (
+                    <div className="space-y-2">
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        disabled={expandingNodeId !== null}
+                        onClick={() => handleExpandNode(selectedNodePreview)}
+                      >
+                        <Network className="w-4 h-4 mr-2" />
+                        {expandingNodeId === selectedNodePreview.id ? "Expanding…" : "Expand connections"}
+                      </Button>
+                      {pathSourceNode && pathSourceNode.id !== selectedNodePreview.id ? (
+                        <Button
+                          variant="outline"
+                          className="w-full"
+                          disabled={pathLoading}
+                          onClick={() => handleFindPath(pathSourceNode, selectedNodePreview)}
+                        >
+                          <Route className="w-4 h-4 mr-2" />
+                          {pathLoading ? "Finding path…" : `Find path from ${pathSourceNode.title}`}
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          className="w-full"
+                          onClick={() => {
+                            setPathSourceNode(selectedNodePreview)
+                            setPathMessage("Select another node to find a path to it")
+                          }}
+                        >
+                          <Route className="w-4 h-4 mr-2" />
+                          Find path from here
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {pathMessage && (
+                    <div className="flex items-center justify-between text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded-md px-3 py-2">
+                      <span>{pathMessage}</span>
+                      <button
+                        className="text-blue-600 hover:underline ml-2"
+                        onClick={() => {
+                          setPathSourceNode(null)
+                          setPathMessage(null)
+                          setHighlightedPath(null)
+                        }}
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  )}
                   <Button 
                     className="w-full bg-blue-600 hover:bg-blue-700 text-white"
                     disabled={!selectedNodePreview}
@@ -2806,7 +3611,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                       // Close modal and reset states
                       setSelectedNodePreview(null)
                       setConnectionsModalOpen(false)
-                      setSelectedCardId(null) // Clear selection when modal closes
+                      setVerseSelection(null) // Clear selection when modal closes
                       resetFilterStates() // Reset all filter settings
                     }}
                   >
@@ -2840,49 +3645,116 @@ function ChapterPageInner({ params }: ChapterPageProps) {
               <div className="border-b border-slate-200 p-4">
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-2xl font-bold text-slate-900">Textual Topology Engine</h2>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setTopologyModalOpen(false)}
-                  >
-                    <X className="w-4 h-4" />
-                  </Button>
+                  <div className="flex items-center space-x-2">
+                    <ApparatusExportMenu
+                      disabled={!primaryWitness || !alternateWitness}
+                      getApparatus={() =>
+                        primaryWitness && alternateWitness
+                          ? buildApparatus(witnessRef, primaryWitness, alternateWitness, alignedSegments, highlightMode)
+                          : null
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTopologyModalOpen(false)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
                 </div>
 
                 {/* Toolbar Controls */}
                 <div className="flex items-center space-x-4">
-                  {/* Version Selection */}
-                  <div className="flex items-center space-x-2">
-                    <label className="text-sm font-medium text-slate-700">Primary:</label>
-                    <Select value={primaryVersion} onValueChange={setPrimaryVersion}>
-                      <SelectTrigger className="w-32">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {Object.keys(manuscriptVersions).map((version) => (
-                          <SelectItem key={version} value={version}>
-                            {manuscriptVersions[version as keyof typeof manuscriptVersions].name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                  {/* View Toggle */}
+                  <div className="flex bg-slate-100 rounded-lg p-1">
+                    <Button
+                      variant={comparisonView === "parallel" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => setComparisonView("parallel")}
+                      className="text-xs"
+                    >
+                      Parallel
+                    </Button>
+                    <Button
+                      variant={comparisonView === "synoptic" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => setComparisonView("synoptic")}
+                      className="text-xs"
+                      disabled={witnessList.length < MIN_SYNOPTIC_WITNESSES}
+                      title={witnessList.length < MIN_SYNOPTIC_WITNESSES ? `Needs at least ${MIN_SYNOPTIC_WITNESSES} versions` : undefined}
+                    >
+                      Synoptic
+                    </Button>
                   </div>
 
-                  <div className="flex items-center space-x-2">
-                    <label className="text-sm font-medium text-slate-700">Alternate:</label>
-                    <Select value={alternateVersion} onValueChange={setAlternateVersion}>
-                      <SelectTrigger className="w-32">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {Object.keys(manuscriptVersions).map((version) => (
-                          <SelectItem key={version} value={version}>
-                            {manuscriptVersions[version as keyof typeof manuscriptVersions].name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {comparisonView === "synoptic" ? (
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" size="sm">
+                          Witnesses ({synopticVersions.length})
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-80 max-h-80 overflow-y-auto" align="start">
+                        <div className="text-xs text-slate-500 mb-2">
+                          Choose {MIN_SYNOPTIC_WITNESSES}–{MAX_SYNOPTIC_WITNESSES} versions to compare.
+                        </div>
+                        <div className="space-y-2">
+                          {witnessList.map((witness) => {
+                            const checked = synopticVersions.includes(witness.versionTitle)
+                            return (
+                              <div key={witness.versionTitle} className="flex items-center space-x-2">
+                                <Checkbox
+                                  id={`witness-${witness.versionTitle}`}
+                                  checked={checked}
+                                  disabled={!checked && synopticVersions.length >= MAX_SYNOPTIC_WITNESSES}
+                                  onCheckedChange={(value) => toggleSynopticVersion(witness.versionTitle, value === true)}
+                                />
+                                <label htmlFor={`witness-${witness.versionTitle}`} className="text-sm text-slate-700 truncate">
+                                  {witness.label}
+                                </label>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      </PopoverContent>
+                    </Popover>
+                  ) : (
+                    <>
+                      {/* Version Selection */}
+                      <div className="flex items-center space-x-2">
+                        <label className="text-sm font-medium text-slate-700">Primary:</label>
+                        <Select value={primaryVersion} onValueChange={setPrimaryVersion} disabled={witnessList.length === 0}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue placeholder={witnessesLoading ? "Loading versions..." : "No versions"} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {witnessList.map((witness) => (
+                              <SelectItem key={witness.versionTitle} value={witness.versionTitle} disabled={witness.versionTitle === alternateVersion}>
+                                {witness.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <label className="text-sm font-medium text-slate-700">Alternate:</label>
+                        <Select value={alternateVersion} onValueChange={setAlternateVersion} disabled={witnessList.length < 2}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue placeholder={witnessList.length < 2 ? "No other versions" : "Choose a version"} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {witnessList.map((witness) => (
+                              <SelectItem key={witness.versionTitle} value={witness.versionTitle} disabled={witness.versionTitle === primaryVersion}>
+                                {witness.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </>
+                  )}
 
                   {/* Highlight Mode Toggle */}
                   <div className="flex items-center space-x-2">
@@ -2907,6 +3779,14 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                     </div>
                   </div>
 
+                  <div className="hidden lg:flex items-center space-x-1">
+                    {HIGHLIGHTED_KINDS[highlightMode].map((kind) => (
+                      <span key={kind} className={`${DIFF_KIND_STYLES[kind].className} text-xs px-1.5 py-0.5 rounded`}>
+                        {DIFF_KIND_STYLES[kind].label}
+                      </span>
+                    ))}
+                  </div>
+
                   {/* Toggle Controls */}
                   <div className="flex items-center space-x-2">
                     <div className="flex items-center space-x-2">
@@ -2919,7 +3799,7 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                         Show Differences
                       </label>
                     </div>
-                    <div className="flex items-center space-x-2">
+                    <div className={`${comparisonView === "synoptic" ? "hidden" : "flex"} items-center space-x-2`}>
                       <Switch
                         id="scroll-locked"
                         checked={scrollLocked}
@@ -2933,115 +3813,61 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                 </div>
               </div>
 
-              {/* Split Screen Content */}
-              <div className="flex-1 flex overflow-hidden">
-                {/* Left Panel - Primary Version */}
-                <div ref={leftPanelRef} className="flex-1 border-r border-slate-200 overflow-y-auto p-6">
-                  <div className="mb-4">
-                    <h3 className="text-lg font-semibold text-slate-900 mb-2">
-                      {manuscriptVersions[primaryVersion as keyof typeof manuscriptVersions]?.name}
-                    </h3>
-                    <p className="text-sm text-slate-600">
-                      {manuscriptVersions[primaryVersion as keyof typeof manuscriptVersions]?.description} ({manuscriptVersions[primaryVersion as keyof typeof manuscriptVersions]?.year})
-                    </p>
-                  </div>
-                  
-                  <div className="space-y-6">
-                    {manuscriptVersions[primaryVersion as keyof typeof manuscriptVersions]?.segments.map((segment) => (
-                      <div key={segment.id} className="bg-slate-50 p-4 rounded-lg">
-                        <div className="mb-2">
-                          <span className="text-sm font-medium text-slate-700">Verse {segment.id}</span>
-                        </div>
-                        <div className="text-right font-hebrew text-lg leading-relaxed text-slate-800 mb-3" dir="rtl">
-                          {segment.text}
-                        </div>
-                        <div className="text-sm text-slate-600 mb-3">
-                          {segment.translation}
-                        </div>
-                        {segment.footnotes.length > 0 && (
-                          <div className="space-y-1">
-                            {segment.footnotes.map((footnote) => (
-                              <div key={footnote.id} className="flex items-start space-x-2">
-                                <span 
-                                  className="text-xs text-blue-600 font-medium cursor-pointer hover:underline"
-                                  onMouseEnter={(e) => setFootnoteTooltip({
-                                    id: footnote.id,
-                                    text: footnote.text,
-                                    x: e.clientX,
-                                    y: e.clientY
-                                  })}
-                                  onMouseLeave={() => setFootnoteTooltip(null)}
-                                >
-                                  [{footnote.id}]
-                                </span>
-                                <span className="text-xs text-slate-600">{footnote.text}</span>
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
+              {/* Synoptic rows, or the split screen of two witnesses */}
+              {comparisonView === "synoptic" ? (
+                <div className="flex-1 overflow-hidden">
+                  {synopticVersions.length < MIN_SYNOPTIC_WITNESSES ? (
+                    <div className="p-6 text-sm text-slate-500">
+                      Choose at least {MIN_SYNOPTIC_WITNESSES} versions to compare.
+                    </div>
+                  ) : (
+                    <SynopticComparison
+                      witnesses={synopticWitnesses}
+                      baseVersion={synopticBase}
+                      onBaseVersionChange={setSynopticBase}
+                      mode={highlightMode}
+                      showDifferences={showDifferences}
+                    />
+                  )}
                 </div>
+              ) : (
+                <div className="flex-1 flex overflow-hidden">
+                  {/* Left Panel - Primary Version */}
+                  <div ref={leftPanelRef} className="flex-1 border-r border-slate-200 overflow-y-auto p-6">
+                    <div className="mb-4">
+                      <h3 className="text-lg font-semibold text-slate-900 mb-2">
+                        {primaryWitness?.label || witnessRef}
+                      </h3>
+                      {primaryWitness?.source && (
+                        <p className="text-sm text-slate-600 truncate">{primaryWitness.source}</p>
+                      )}
+                    </div>
 
-                {/* Right Panel - Alternate Version */}
-                <div ref={rightPanelRef} className="flex-1 overflow-y-auto p-6">
-                  <div className="mb-4">
-                    <h3 className="text-lg font-semibold text-slate-900 mb-2">
-                      {manuscriptVersions[alternateVersion as keyof typeof manuscriptVersions]?.name}
-                    </h3>
-                    <p className="text-sm text-slate-600">
-                      {manuscriptVersions[alternateVersion as keyof typeof manuscriptVersions]?.description} ({manuscriptVersions[alternateVersion as keyof typeof manuscriptVersions]?.year})
-                    </p>
-                  </div>
-                  
-                  <div className="space-y-6">
-                    {manuscriptVersions[alternateVersion as keyof typeof manuscriptVersions]?.segments.map((segment) => {
-                      const primarySegment = manuscriptVersions[primaryVersion as keyof typeof manuscriptVersions]?.segments.find(s => s.id === segment.id);
-                      const differences = primarySegment ? computeTextDifferences(primarySegment.text, segment.text) : [];
-                      
-                      return (
-                        <div key={segment.id} className="bg-slate-50 p-4 rounded-lg">
+                    {witnessesLoading && <div className="text-sm text-slate-500">Loading versions of {witnessRef}...</div>}
+                    {witnessError && <div className="text-sm text-red-600 mb-4">{witnessError}</div>}
+                    {!witnessesLoading && !witnessError && witnessList.length === 0 && (
+                      <div className="text-sm text-slate-500">No versions of {witnessRef} are available.</div>
+                    )}
+
+                    <div className="space-y-6">
+                      {alignedSegments.map(({ id, primary }) => (
+                        <div key={id} data-paragraph-id={id} className="bg-slate-50 p-4 rounded-lg">
                           <div className="mb-2">
-                            <span className="text-sm font-medium text-slate-700">Verse {segment.id}</span>
-                          </div>
-                          <div className="text-right font-hebrew text-lg leading-relaxed text-slate-800 mb-3" dir="rtl">
-                            {showDifferences && differences.length > 0 ? (
-                              <span>
-                                {differences.map((diff, index) => {
-                                  if (diff.type === 'insertion') {
-                                    return (
-                                      <span key={index} className="bg-green-200 text-green-800 px-1 rounded">
-                                        {diff.text}
-                                      </span>
-                                    );
-                                  } else if (diff.type === 'deletion') {
-                                    return (
-                                      <span key={index} className="line-through bg-red-200 text-red-800 px-1 rounded">
-                                        {diff.text}
-                                      </span>
-                                    );
-                                  } else if (diff.type === 'substitution') {
-                                    return (
-                                      <span key={index} className="bg-yellow-200 text-yellow-800 px-1 rounded">
-                                        {diff.text}
-                                      </span>
-                                      );
-                                  }
-                                  return null;
-                                })}
-                                {segment.text}
-                              </span>
-                            ) : (
-                              segment.text
-                            )}
-                          </div>
-                          <div className="text-sm text-slate-600 mb-3">
-                            {segment.translation}
+                            <span className="text-sm font-medium text-slate-700">Verse {id}</span>
                           </div>
-                          {segment.footnotes.length > 0 && (
+                          {primary ? (
+                            <div
+                              className={`${primaryWitness?.direction === "rtl" ? "text-right font-hebrew text-lg" : "text-left"} leading-relaxed text-slate-800 mb-3`}
+                              dir={primaryWitness?.direction}
+                            >
+                              {primary.text}
+                            </div>
+                          ) : (
+                            <div className="text-sm italic text-slate-400 mb-3">Not in this version</div>
+                          )}
+                          {primary && primary.footnotes.length > 0 && (
                             <div className="space-y-1">
-                              {segment.footnotes.map((footnote) => (
+                              {primary.footnotes.map((footnote) => (
                                 <div key={footnote.id} className="flex items-start space-x-2">
                                   <span 
                                     className="text-xs text-blue-600 font-medium cursor-pointer hover:underline"
@@ -3061,26 +3887,79 @@ function ChapterPageInner({ params }: ChapterPageProps) {
                             </div>
                           )}
                         </div>
-                      );
-                    })}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              </div>
 
-              {/* Footnote Tooltip */}
-              {footnoteTooltip && (
-                <div 
-                  className="fixed z-[60] bg-slate-900 text-white p-3 rounded-lg shadow-lg max-w-xs"
-                  style={{
-                    left: footnoteTooltip.x + 10,
-                    top: footnoteTooltip.y - 10,
-                    pointerEvents: 'none'
-                  }}
-                >
-                  <div className="text-xs font-medium mb-1">Footnote {footnoteTooltip.id}</div>
-                  <div className="text-xs text-slate-200">{footnoteTooltip.text}</div>
+                  {/* Right Panel - Alternate Version */}
+                  <div ref={rightPanelRef} className="flex-1 overflow-y-auto p-6">
+                    <div className="mb-4">
+                      <h3 className="text-lg font-semibold text-slate-900 mb-2">
+                        {alternateWitness?.label || "Alternate version"}
+                      </h3>
+                      {alternateWitness?.source && (
+                        <p className="text-sm text-slate-600 truncate">{alternateWitness.source}</p>
+                      )}
+                    </div>
+
+                    {!witnessesLoading && witnessList.length === 1 && (
+                      <div className="text-sm text-slate-500">
+                        Only one version of {witnessRef} is available, so there is nothing to compare it with.
+                      </div>
+                    )}
+
+                    <div className="space-y-6">
+                      {alternateWitness && alignedSegments.map(({ id, primary, alternate }) => {
+                        const differences = showDifferences && primary && alternate ? diffWords(primary.text, alternate.text) : [];
+                      
+                        return (
+                          <div key={id} data-paragraph-id={id} className="bg-slate-50 p-4 rounded-lg">
+                            <div className="mb-2">
+                              <span className="text-sm font-medium text-slate-700">Verse {id}</span>
+                            </div>
+                            {alternate ? (
+                            <div
+                              className={`${alternateWitness.direction === "rtl" ? "text-right font-hebrew text-lg" : "text-left"} leading-relaxed text-slate-800 mb-3`}
+                              dir={alternateWitness.direction}
+                            >
+                              {differences.length > 0 ? (
+                                <DiffText tokens={differences} mode={highlightMode} />
+                              ) : (
+                                alternate.text
+                              )}
+                            </div>
+                            ) : (
+                              <div className="text-sm italic text-slate-400 mb-3">Not in this version</div>
+                            )}
+                            {alternate && alternate.footnotes.length > 0 && (
+                              <div className="space-y-1">
+                                {alternate.footnotes.map((footnote) => (
+                                  <div key={footnote.id} className="flex items-start space-x-2">
+                                    <span 
+                                      className="text-xs text-blue-600 font-medium cursor-pointer hover:underline"
+                                      onMouseEnter={(e) => setFootnoteTooltip({
+                                        id: footnote.id,
+                                        text: footnote.text,
+                                        x: e.clientX,
+                                        y: e.clientY
+                                      })}
+                                      onMouseLeave={() => setFootnoteTooltip(null)}
+                                    >
+                                      [{footnote.id}]
+                                    </span>
+                                    <span className="text-xs text-slate-600">{footnote.text}</span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
                 </div>
               )}
+
             </motion.div>
           </motion.div>
         )}
@@ -15,6 +15,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { normalizeBookTitle } from "@/lib/ref";
+import { sefaria } from "@/lib/sefaria-api";
 
 interface BookData {
   title: string;
@@ -88,34 +90,10 @@ function BookPageInner() {
         setLoading(true);
         setError(null);
 
-        const storedData = sessionStorage.getItem(
-          `book-${params.category}-${params.book}`
-        );
-        if (storedData) {
-          const contentData = JSON.parse(storedData);
-          console.log("Book data from sessionStorage:", contentData);
-          console.log("Contents property:", contentData.contents);
-          setBookData(contentData);
-          setLoading(false);
-          return;
-        }
-
         // Convert URL-friendly book name back to title
-        const bookTitle = params.book
-          .replace(/-/g, " ")
-          .replace(/\b\w/g, (l) => l.toUpperCase());
-
-        const response = await fetch(
-          `https://www.sefaria.org/api/v2/index/${encodeURIComponent(
-            bookTitle
-          )}?with_content_counts=1&with_related_topics=1`
-        );
-
-        if (!response.ok) {
-          throw new Error(`Failed to fetch book data: ${response.status}`);
-        }
+        const bookTitle = normalizeBookTitle(params.book);
 
-        const data = await response.json();
+        const data = await sefaria.getBookIndex(bookTitle);
         console.log("Book data from API:", data);
         console.log("Contents property from API:", data.contents);
         setBookData(data);
@@ -173,9 +151,7 @@ function BookPageInner() {
   const torahPortions = bookData?.alts?.Parasha?.nodes || [];
   const bookTitle =
     bookData?.title ||
-    params.book
-      .replace(/-/g, " ")
-      .replace(/\b\w/g, (l) => l.toUpperCase());
+    normalizeBookTitle(params.book);
 
   return (
     <div className="min-h-screen bg-white">
@@ -188,9 +164,7 @@ function BookPageInner() {
 
               <PageHeader 
                 title={effectiveLanguage === "he" ? (bookData?.heTitle || bookData?.title) : (bookData?.title ||
-                  params.book
-                    .replace(/-/g, " ")
-                    .replace(/\b\w/g, (l) => l.toUpperCase()))}
+                  normalizeBookTitle(params.book))}
                 hebrewTitle={bookData?.heTitle}
                 movable={true}
               />
@@ -4,6 +4,7 @@ import { useMemo, useState, type MouseEvent } from "react";
 import { motion } from "framer-motion";
 import { Search, BookOpen, Menu } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -20,6 +21,7 @@ import { ContentLanguageProvider, useOptionalContentLanguage } from "@/component
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { TextsSidebar } from "@/components/texts-sidebar";
 import { PageHeader } from "@/components/page-header";
+import { searchUrl } from "@/lib/search";
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -121,6 +123,7 @@ export default function TextsPage() {
 
 function TextsPageInner() {
   const { data, status, error } = useLibraryData();
+  const router = useRouter();
   const [searchQuery, setSearchQuery] = useState("");
   const { effectiveLanguage } = useOptionalContentLanguage();
   const isHebrew = effectiveLanguage === "he";
@@ -155,6 +158,25 @@ function TextsPageInner() {
               movable={false}
             />
 
+            {/* Filters the categories; Enter searches the library's texts */}
+            <form
+              className="relative mb-6"
+              onSubmit={(e) => {
+                e.preventDefault();
+                const text = searchQuery.trim();
+                if (text) router.push(searchUrl({ text }));
+              }}
+            >
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+              <Input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Filter categories or search texts..."
+                className="pl-10 bg-white"
+              />
+            </form>
+
             {loading && (
               <div
                 className="flex flex-col items-center justify-center py-12"
@@ -0,0 +1,220 @@
+"use client"
+
+import { useState } from "react"
+import { Pencil, Trash2, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  ANNOTATION_TYPES,
+  type Annotation,
+  type AnnotationDraft,
+  type AnnotationRange,
+  type AnnotationType,
+} from "@/lib/annotations"
+
+interface AnnotationsPanelProps {
+  // Every annotation of the book; those on `currentRef` are listed first
+  annotations: Annotation[]
+  loading?: boolean
+  error?: string | null
+  // Ref new notes attach to, e.g. the selected verse or span
+  currentRef: string | null
+  // Text the reader selected in the current verse, if any
+  range?: AnnotationRange | null
+  onClearRange?: () => void
+  onCreate: (draft: AnnotationDraft) => Promise<unknown>
+  onUpdate: (id: string, changes: Partial<Omit<AnnotationDraft, "ref">>) => Promise<unknown>
+  onDelete: (id: string) => Promise<unknown>
+  onSelect?: (annotation: Annotation) => void
+  // Whether an annotation belongs with `currentRef`
+  isCurrent?: (annotation: Annotation) => boolean
+}
+
+const TYPES = Object.keys(ANNOTATION_TYPES) as AnnotationType[]
+
+function TypeSelect({ value, onChange }: { value: AnnotationType; onChange: (type: AnnotationType) => void }) {
+  return (
+    <Select value={value} onValueChange={next => onChange(next as AnnotationType)}>
+      <SelectTrigger className="w-40 h-8 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TYPES.map(type => (
+          <SelectItem key={type} value={type}>
+            <span className="inline-flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ANNOTATION_TYPES[type].color }} />
+              {ANNOTATION_TYPES[type].label}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function Quote({ range }: { range: AnnotationRange }) {
+  return (
+    <blockquote
+      className={`border-l-2 border-slate-300 pl-2 text-sm text-slate-600 ${range.language === "he" ? "font-hebrew text-right" : "italic"}`}
+      dir={range.language === "he" ? "rtl" : "ltr"}
+    >
+      {range.quote}
+    </blockquote>
+  )
+}
+
+export default function AnnotationsPanel({
+  annotations,
+  loading = false,
+  error,
+  currentRef,
+  range,
+  onClearRange,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onSelect,
+  isCurrent = annotation => annotation.ref === currentRef,
+}: AnnotationsPanelProps) {
+  const [type, setType] = useState<AnnotationType>("insight")
+  const [text, setText] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [editing, setEditing] = useState<{ id: string; type: AnnotationType; text: string } | null>(null)
+
+  const current = annotations.filter(isCurrent)
+  const others = annotations.filter(annotation => !isCurrent(annotation))
+
+  const handleCreate = async () => {
+    if (!currentRef || !text.trim()) return
+    setSaving(true)
+    try {
+      await onCreate({ ref: currentRef, type, text: text.trim(), range: range || undefined })
+      setText("")
+      onClearRange?.()
+    } catch (err) {
+      console.error("Failed to save annotation:", err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleUpdate = async () => {
+    if (!editing || !editing.text.trim()) return
+    try {
+      await onUpdate(editing.id, { type: editing.type, text: editing.text.trim() })
+      setEditing(null)
+    } catch (err) {
+      console.error("Failed to update annotation:", err)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await onDelete(id)
+    } catch (err) {
+      console.error("Failed to delete annotation:", err)
+    }
+  }
+
+  const renderAnnotation = (annotation: Annotation) => {
+    const style = ANNOTATION_TYPES[annotation.type]
+    if (editing?.id === annotation.id) {
+      return (
+        <div key={annotation.id} className="rounded-lg border border-blue-300 p-3 space-y-2">
+          <TypeSelect value={editing.type} onChange={next => setEditing({ ...editing, type: next })} />
+          <Textarea value={editing.text} onChange={e => setEditing({ ...editing, text: e.target.value })} rows={3} />
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button size="sm" onClick={handleUpdate} disabled={!editing.text.trim()}>Save</Button>
+          </div>
+        </div>
+      )
+    }
+    return (
+      <div key={annotation.id} className="group rounded-lg border border-slate-200 p-3 space-y-2 hover:border-slate-300">
+        <div className="flex items-center justify-between gap-2">
+          <button type="button" className="text-xs font-medium text-blue-700 hover:underline" onClick={() => onSelect?.(annotation)}>
+            {annotation.ref}
+          </button>
+          <Badge variant="secondary" className={style.className}>{style.label}</Badge>
+        </div>
+        {annotation.range && <Quote range={annotation.range} />}
+        <p className="text-sm text-slate-800 whitespace-pre-wrap">{annotation.text}</p>
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-400">{new Date(annotation.updatedAt).toLocaleString()}</span>
+          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 p-0"
+              title="Edit"
+              onClick={() => setEditing({ id: annotation.id, type: annotation.type, text: annotation.text })}
+            >
+              <Pencil className="w-3 h-3" />
+            </Button>
+            <Button size="sm" variant="ghost" className="h-7 w-7 p-0 text-red-600" title="Delete" onClick={() => handleDelete(annotation.id)}>
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium text-slate-700">{currentRef ? `New note on ${currentRef}` : "Select a verse to add a note"}</span>
+          <TypeSelect value={type} onChange={setType} />
+        </div>
+        {range && (
+          <div className="flex items-start gap-2">
+            <div className="flex-1"><Quote range={range} /></div>
+            {onClearRange && (
+              <Button size="sm" variant="ghost" className="h-6 w-6 p-0" title="Attach to the whole verse" onClick={onClearRange}>
+                <X className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        )}
+        <Textarea
+          placeholder="Write a note…"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          rows={3}
+          disabled={!currentRef}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleCreate} disabled={!currentRef || !text.trim() || saving}>
+            Add note
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading notes…</p>
+      ) : annotations.length === 0 ? (
+        <p className="text-sm text-slate-500">No notes on this book yet.</p>
+      ) : (
+        <>
+          {currentRef && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">On {currentRef}</h3>
+              {current.length > 0 ? current.map(renderAnnotation) : <p className="text-sm text-slate-500">No notes here yet.</p>}
+            </div>
+          )}
+          {others.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">{currentRef ? "Elsewhere in this book" : "All notes"}</h3>
+              {others.map(renderAnnotation)}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import { FileDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { APPARATUS_FORMATS, exportApparatus, printApparatus, type Apparatus } from "@/lib/apparatus"
+
+interface ApparatusExportMenuProps {
+  // Built on demand, so nothing is diffed until the user exports
+  getApparatus: () => Apparatus | null
+  disabled?: boolean
+}
+
+export default function ApparatusExportMenu({ getApparatus, disabled }: ApparatusExportMenuProps) {
+  const run = (action: (apparatus: Apparatus) => void) => {
+    const apparatus = getApparatus()
+    if (!apparatus) return
+    try {
+      action(apparatus)
+    } catch (error) {
+      console.error("Failed to export apparatus:", error)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} title="Export critical apparatus">
+          <FileDown className="w-4 h-4 mr-2" />
+          Export Apparatus
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {APPARATUS_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => run(apparatus => exportApparatus(format, apparatus))}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => run(printApparatus)}>
+          Print / Save as PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
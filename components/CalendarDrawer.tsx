@@ -78,7 +78,7 @@ export default function CalendarDrawer({ open, onClose, todaysLearning }: Calend
       const y = d.getFullYear()
       const m = pad2(d.getMonth() + 1)
       const day = pad2(d.getDate())
-      const res = await fetch(`https://www.sefaria.org/api/calendars?year=${y}&month=${m}&day=${day}`, { cache: "no-store" })
+      const res = await fetch(`/api/calendars?year=${y}&month=${m}&day=${day}`, { cache: "no-store" })
       if (!res.ok) throw new Error(`Calendars request failed: ${res.status}`)
       const data = await res.json()
       setCalendarItems(Array.isArray(data?.calendar_items) ? data.calendar_items : [])
@@ -0,0 +1,111 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, ChevronRight, Star } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import SefariaHtml from "@/components/SefariaHtml"
+import { orderCommentators, type CommentatorGroup } from "@/lib/commentary"
+
+interface CommentaryPanelProps {
+  verseRef: string | null
+  groups: CommentatorGroup[]
+  loading?: boolean
+  error?: string | null
+  displayMode: "hebrew" | "english" | "bilingual"
+  pinned: string[]
+  onTogglePin: (commentator: string) => void
+  // Commentator shown first and expanded, e.g. the base commentary layer
+  baseCommentator?: string
+}
+
+// Comments on one verse, a collapsible section per commentator. The base
+// commentator and pinned ones come first and start expanded.
+export default function CommentaryPanel({
+  verseRef,
+  groups,
+  loading = false,
+  error,
+  displayMode,
+  pinned,
+  onTogglePin,
+  baseCommentator,
+}: CommentaryPanelProps) {
+  // Sections the reader opened or closed, overriding the default
+  const [toggled, setToggled] = useState<Record<string, boolean>>({})
+  const ordered = orderCommentators(groups, pinned, baseCommentator)
+
+  if (!verseRef) {
+    return <p className="text-sm text-slate-500">Scroll to a verse to see its commentaries.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-900">Commentary on {verseRef}</h3>
+        {loading && <span className="text-xs text-slate-500">Loading…</span>}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!loading && !error && ordered.length === 0 && (
+        <p className="text-sm text-slate-500">No commentaries on this verse.</p>
+      )}
+
+      {ordered.map(group => {
+        const isPinned = pinned.includes(group.commentator)
+        const open = toggled[group.commentator] ?? (group.commentator === baseCommentator || isPinned)
+        return (
+          <div key={group.commentator} className="rounded-lg border border-slate-200">
+            <div className="flex items-center justify-between px-3 py-2">
+              <button
+                type="button"
+                className="flex items-center gap-1 text-sm font-medium text-slate-800"
+                onClick={() => setToggled(prev => ({ ...prev, [group.commentator]: !open }))}
+              >
+                {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                {group.commentator}
+                {group.heCommentator && <span className="font-hebrew text-slate-500 ml-1">{group.heCommentator}</span>}
+              </button>
+              <div className="flex items-center gap-1">
+                {group.commentator === baseCommentator && <Badge variant="secondary">Base</Badge>}
+                <Badge variant="outline">{group.comments.length}</Badge>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  title={isPinned ? "Unpin" : "Pin"}
+                  onClick={() => onTogglePin(group.commentator)}
+                >
+                  <Star className={`w-4 h-4 ${isPinned ? "fill-amber-400 text-amber-500" : "text-slate-400"}`} />
+                </Button>
+              </div>
+            </div>
+            {open && (
+              <div className="border-t border-slate-100 px-3 py-2 space-y-3">
+                {group.comments.map(comment => {
+                  // Fall back to whichever language the comment has
+                  const showHebrew = displayMode !== "english" || !comment.en
+                  const showEnglish = displayMode !== "hebrew" || !comment.he
+                  return (
+                    <div key={comment.ref} className="space-y-1">
+                      <div className="text-xs text-slate-500">{comment.ref}</div>
+                      {showHebrew && comment.he && (
+                        <div className="font-hebrew text-right text-base leading-relaxed text-slate-800" dir="rtl">
+                          <SefariaHtml html={comment.he} />
+                        </div>
+                      )}
+                      {showEnglish && comment.en && (
+                        <div className="text-sm leading-relaxed text-slate-700" dir="ltr">
+                          <SefariaHtml html={comment.en} />
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -2,11 +2,14 @@
 
 import { useEffect, useRef } from 'react'
 import * as d3 from 'd3'
+import GraphExportMenu from '@/components/GraphExportMenu'
+import { NODE_TYPE_STYLES, RELATIONSHIP_STYLES, relationshipTypesIn, type NodeType, type RelationshipType } from '@/lib/graph'
 
 interface GraphNode {
   id: string;
   title: string;
-  type: "current" | "halakhic" | "aggadic" | "lexical" | "responsa" | "commentary" | "mishnah" | "talmud" | "kabbalah";
+  type: NodeType;
+  category?: string;
   snippet: string;
   content?: string;
   url?: string;
@@ -30,7 +33,8 @@ interface GraphLink {
   id: string;
   source: string | GraphNode;
   target: string | GraphNode;
-  type: "explicit";
+  type: RelationshipType;
+  relationType?: string;
   strength: number;
   weight?: number;
   simulation?: {
@@ -63,18 +67,9 @@ export default function D3Graph({ data, onNodeClick, onLinkHover }: D3GraphProps
     const width = svgRef.current.clientWidth
     const height = svgRef.current.clientHeight
 
-    // Color scale for node types
-    const nodeColors: Record<GraphNode["type"], string> = {
-      current: "#3b82f6",
-      halakhic: "#059669",
-      aggadic: "#dc2626",
-      lexical: "#6b7280",
-      responsa: "#10b981",
-      commentary: "#8b5cf6",
-      mishnah: "#f59e0b",
-      talmud: "#1e40af",
-      kabbalah: "#dc2626"
-    }
+    // Styling per node type and relationship type
+    const nodeColor = (type: NodeType) => NODE_TYPE_STYLES[type].color
+    const linkStyle = (type: RelationshipType) => RELATIONSHIP_STYLES[type] ?? RELATIONSHIP_STYLES.related
 
     // Create force simulation
     const simulation = d3.forceSimulation(data.nodes)
@@ -88,7 +83,8 @@ export default function D3Graph({ data, onNodeClick, onLinkHover }: D3GraphProps
       .selectAll("line")
       .data(data.links)
       .enter().append("line")
-      .attr("stroke", "#6b7280")
+      .attr("stroke", (d: any) => linkStyle(d.type).color)
+      .attr("stroke-dasharray", (d: any) => linkStyle(d.type).dash ?? null)
       .attr("stroke-width", (d: any) => d.strength * 3)
       .attr("opacity", 0.6)
       .on("mouseover", function(event, d: any) {
@@ -113,7 +109,7 @@ export default function D3Graph({ data, onNodeClick, onLinkHover }: D3GraphProps
     // Add circles to nodes
     node.append("circle")
       .attr("r", (d: GraphNode) => d.type === "current" ? 20 : 15)
-      .attr("fill", (d: GraphNode) => nodeColors[d.type])
+      .attr("fill", (d: GraphNode) => nodeColor(d.type))
       .attr("stroke", "#fff")
       .attr("stroke-width", 2)
 
@@ -175,13 +171,35 @@ export default function D3Graph({ data, onNodeClick, onLinkHover }: D3GraphProps
     }
   }, [data, onNodeClick, onLinkHover])
 
+  const relationshipTypes = relationshipTypesIn(data.links)
+
   return (
-    <svg
-      ref={svgRef}
-      width="100%"
-      height="100%"
-      style={{ background: '#f8fafc' }}
-    />
+    <div className="relative w-full h-full">
+      <svg
+        ref={svgRef}
+        width="100%"
+        height="100%"
+        style={{ background: '#f8fafc' }}
+      />
+      <div className="absolute top-4 right-4">
+        <GraphExportMenu data={data} getSvg={() => svgRef.current} title="Connections" />
+      </div>
+      {relationshipTypes.length > 0 && (
+        <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg">
+          <h4 className="text-sm font-semibold text-slate-900 mb-2">Connection Types</h4>
+          <div className="space-y-1">
+            {relationshipTypes.map(type => (
+              <div key={type} className="flex items-center space-x-2">
+                <svg width="20" height="6" aria-hidden="true">
+                  <line x1="0" y1="3" x2="20" y2="3" stroke={RELATIONSHIP_STYLES[type].color} strokeWidth="2" strokeDasharray={RELATIONSHIP_STYLES[type].dash} />
+                </svg>
+                <span className="text-xs text-slate-700">{RELATIONSHIP_STYLES[type].label}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
   )
 }
 
@@ -0,0 +1,45 @@
+"use client"
+
+import { DIFF_KIND_STYLES, isHighlighted, type DiffToken, type HighlightMode } from "@/lib/text-diff"
+
+interface DiffTextProps {
+  tokens: DiffToken[]
+  mode: HighlightMode
+}
+
+// A witness's text as diffed against a base text. Words whose kind of variant
+// is shown in `mode` are highlighted; words only in the base text appear
+// struck through.
+export default function DiffText({ tokens, mode }: DiffTextProps) {
+  return (
+    <span>
+      {tokens.map((token, index) => {
+        const separator = index > 0 ? " " : null
+        const word = token.text ?? token.base ?? ""
+
+        if (!isHighlighted(token, mode)) {
+          if (token.kind === "deletion" || (token.kind === "transposition" && !token.text)) return null
+          return <span key={index}>{separator}{word}</span>
+        }
+
+        const style = DIFF_KIND_STYLES[token.kind]
+        const moved = token.kind === "transposition" && !token.text
+        const title = token.base && token.text && token.base !== token.text
+          ? `${style.label}: ${token.base} → ${token.text}`
+          : style.label
+        return (
+          <span key={index}>
+            {separator}
+            <span className={`${style.className} ${moved ? "line-through" : ""} px-1 rounded`} title={title}>
+              {token.kind === "lexical" && token.chars
+                ? token.chars.filter(part => part.type !== "delete").map((part, i) => (
+                    <span key={i} className={part.type === "insert" ? "font-bold underline" : undefined}>{part.text}</span>
+                  ))
+                : word}
+            </span>
+          </span>
+        )
+      })}
+    </span>
+  )
+}
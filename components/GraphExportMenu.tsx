@@ -0,0 +1,76 @@
+"use client"
+
+import { useState } from "react"
+import { Download, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { exportFileName } from "@/lib/download"
+import { GRAPH_EXPORT_FORMATS, exportGraph, type GraphExportFormat, type GraphExportMeta } from "@/lib/graph-export"
+
+interface GraphExportMenuProps {
+  data: Parameters<typeof exportGraph>[1]["data"]
+  // The rendered graph; needed for the image formats only
+  getSvg: () => SVGSVGElement | null | undefined
+  title: string
+  filters?: GraphExportMeta["filters"]
+  className?: string
+}
+
+export default function GraphExportMenu({ data, getSvg, title, filters, className }: GraphExportMenuProps) {
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async (format: GraphExportFormat) => {
+    setExporting(true)
+    try {
+      await exportGraph(format, {
+        data,
+        svg: getSvg(),
+        fileName: `${exportFileName(title)}-connections`,
+        meta: { title, filters },
+      })
+    } catch (error) {
+      console.error(`Failed to export graph as ${format}:`, error)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={className}
+          disabled={exporting || data.nodes.length === 0}
+          title="Export graph"
+        >
+          {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          <span className="ml-1">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Image</DropdownMenuLabel>
+        {GRAPH_EXPORT_FORMATS.filter(({ format }) => format === "png" || format === "svg").map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Graph data</DropdownMenuLabel>
+        {GRAPH_EXPORT_FORMATS.filter(({ format }) => format !== "png" && format !== "svg").map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { MessageSquarePlus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { HIGHLIGHT_COLORS, type HighlightColor } from "@/lib/highlights"
+
+interface HighlightToolbarProps {
+  // Viewport position of the selection or highlight the toolbar is for
+  x: number
+  y: number
+  // Color of the highlight being edited; unset for a new selection
+  activeColor?: HighlightColor
+  onPick: (color: HighlightColor) => void
+  onAddNote?: () => void
+  onRemove?: () => void
+  onClose: () => void
+}
+
+const COLORS = Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]
+
+// Floating palette shown above selected verse text or a clicked highlight
+export default function HighlightToolbar({ x, y, activeColor, onPick, onAddNote, onRemove, onClose }: HighlightToolbarProps) {
+  return (
+    <div
+      className="fixed z-50 flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-2 py-1 shadow-lg -translate-x-1/2 -translate-y-full"
+      style={{ left: x, top: y - 8 }}
+      // Keep the text selection while the toolbar is used
+      onMouseDown={e => e.preventDefault()}
+    >
+      {COLORS.map(color => (
+        <button
+          key={color}
+          type="button"
+          title={HIGHLIGHT_COLORS[color].label}
+          className={`w-5 h-5 rounded-full border ${color === activeColor ? "border-slate-900 ring-2 ring-slate-300" : "border-slate-300"}`}
+          style={{ backgroundColor: HIGHLIGHT_COLORS[color].color }}
+          onClick={() => onPick(color)}
+        />
+      ))}
+      {onAddNote && (
+        <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Add a note on this text" onClick={onAddNote}>
+          <MessageSquarePlus className="w-4 h-4" />
+        </Button>
+      )}
+      {onRemove && (
+        <Button size="sm" variant="ghost" className="h-7 w-7 p-0 text-red-600" title="Remove highlight" onClick={onRemove}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+      <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Close" onClick={onClose}>
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  )
+}
@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import GraphExportMenu from "@/components/GraphExportMenu"
+import { NODE_TYPE_STYLES, RELATIONSHIP_STYLES, normalizeNodeType, normalizeRelationshipType, relationshipTypesIn, type GraphData as ExportGraphData, type RelationshipType } from "@/lib/graph"
 
 interface Node extends d3.SimulationNodeDatum {
   id: string
@@ -18,7 +20,7 @@ interface Node extends d3.SimulationNodeDatum {
 interface Link extends d3.SimulationLinkDatum<Node> {
   source: string | Node
   target: string | Node
-  type: string
+  type: string // Relationship type, raw or already normalized
   strength: number
 }
 
@@ -27,6 +29,29 @@ interface GraphData {
   links: Link[]
 }
 
+// The graph in lib/graph's shape, for export: types normalized, links given
+// positional ids
+function toExportGraphData(data: GraphData): ExportGraphData {
+  return {
+    nodes: data.nodes.map(node => ({
+      id: node.id,
+      title: node.title,
+      type: normalizeNodeType(node.type),
+      snippet: node.snippet ?? "",
+      content: node.content,
+      metadata: {},
+    })),
+    links: data.links.map((link, index) => ({
+      id: `e${index}`,
+      source: typeof link.source === "string" ? link.source : link.source.id,
+      target: typeof link.target === "string" ? link.target : link.target.id,
+      type: normalizeRelationshipType(link.type),
+      relationType: link.type,
+      strength: link.strength,
+    })),
+  }
+}
+
 interface InteractiveGraphProps {
   data: GraphData
   onNodeClick: (node: Node) => void
@@ -39,6 +64,7 @@ export default function InteractiveGraph({ data, onNodeClick, onClose }: Interac
     genre: "all",
     author: "all",
     timePeriod: "all",
+    relationship: "all" as RelationshipType | "all",
   })
   const [selectedNode, setSelectedNode] = useState<Node | null>(null)
   const [hoveredNode, setHoveredNode] = useState<Node | null>(null)
@@ -69,27 +95,15 @@ export default function InteractiveGraph({ data, onNodeClick, onClose }: Interac
       dimensions: { width, height }
     })
 
-    // Color mapping for edge types
-    const edgeColors = {
-      halakhic: "#3b82f6", // blue
-      aggadic: "#ef4444", // red
-      lexical: "#6b7280", // gray
-      responsa: "#10b981", // green
-    }
-
-    // Node type colors
-    const nodeColors = {
-      talmud: "#1e40af",
-      mishnah: "#7c3aed",
-      halakhah: "#059669",
-      kabbalah: "#dc2626",
-      commentary: "#ea580c",
-      current: "#f59e0b", // special color for current text
-    }
+    // Styling per relationship type and node type
+    const edgeStyle = (type: string) => RELATIONSHIP_STYLES[normalizeRelationshipType(type)]
+    const nodeColor = (type: string) => NODE_TYPE_STYLES[normalizeNodeType(type)].color
 
     // Create deep copies of the data to avoid mutation
     const nodes = data.nodes.map((d) => ({ ...d }))
-    const links = data.links.map((d) => ({ ...d }))
+    const links = data.links
+      .filter((d) => filters.relationship === "all" || normalizeRelationshipType(d.type) === filters.relationship)
+      .map((d) => ({ ...d }))
 
     // Calculate adaptive scaling based on node count to maintain visual consistency
     const nodeCount = nodes.length
@@ -164,7 +178,8 @@ export default function InteractiveGraph({ data, onNodeClick, onClose }: Interac
       .enter()
       .append("line")
       .attr("class", "link")
-      .attr("stroke", (d: any) => edgeColors[d.type as keyof typeof edgeColors] || "#999")
+      .attr("stroke", (d: any) => edgeStyle(d.type).color)
+      .attr("stroke-dasharray", (d: any) => edgeStyle(d.type).dash ?? null)
       .attr("stroke-width", (d: any) => Math.sqrt(d.strength * 10))
       .attr("stroke-opacity", 0.6)
 
@@ -181,7 +196,7 @@ export default function InteractiveGraph({ data, onNodeClick, onClose }: Interac
     nodeElements
       .append("circle")
       .attr("r", nodeRadius)
-      .attr("fill", (d: any) => nodeColors[d.type as keyof typeof nodeColors] || "#999")
+      .attr("fill", (d: any) => nodeColor(d.type))
       .attr("stroke", "#fff")
       .attr("stroke-width", 2)
 
@@ -261,7 +276,11 @@ export default function InteractiveGraph({ data, onNodeClick, onClose }: Interac
     return () => {
       simulation.stop()
     }
-  }, [data, onNodeClick])
+  }, [data, onNodeClick, filters.relationship])
+
+  const relationshipTypes = relationshipTypesIn(
+    (data?.links || []).map(link => ({ type: normalizeRelationshipType(link.type) }))
+  )
 
   return (
     <div className="flex flex-col h-full">
@@ -280,6 +299,21 @@ export default function InteractiveGraph({ data, onNodeClick, onClose }: Interac
             </SelectContent>
           </Select>
 
+          <Select
+            value={filters.relationship}
+            onValueChange={(value) => setFilters({ ...filters, relationship: value as RelationshipType | "all" })}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Relationship" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Relationships</SelectItem>
+              {relationshipTypes.map(type => (
+                <SelectItem key={type} value={type}>{RELATIONSHIP_STYLES[type].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <Select value={filters.timePeriod} onValueChange={(value) => setFilters({ ...filters, timePeriod: value })}>
             <SelectTrigger className="w-40">
               <SelectValue placeholder="Time Period" />
@@ -293,9 +327,17 @@ export default function InteractiveGraph({ data, onNodeClick, onClose }: Interac
           </Select>
         </div>
 
-        <Button variant="ghost" onClick={onClose}>
-          ✕
-        </Button>
+        <div className="flex items-center space-x-2">
+          <GraphExportMenu
+            data={toExportGraphData(data)}
+            getSvg={() => svgRef.current}
+            title="Connections"
+            filters={filters}
+          />
+          <Button variant="ghost" onClick={onClose}>
+            ✕
+          </Button>
+        </div>
       </div>
 
       <div className="flex flex-1">
@@ -307,22 +349,14 @@ export default function InteractiveGraph({ data, onNodeClick, onClose }: Interac
           <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg">
             <h4 className="font-medium text-sm mb-2">Connection Types</h4>
             <div className="space-y-1">
-              <div className="flex items-center space-x-2">
-                <div className="w-3 h-0.5 bg-blue-500" />
-                <span className="text-xs">Halakhic</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-3 h-0.5 bg-red-500" />
-                <span className="text-xs">Aggadic</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-3 h-0.5 bg-gray-500" />
-                <span className="text-xs">Lexical</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-3 h-0.5 bg-green-500" />
-                <span className="text-xs">Responsa</span>
-              </div>
+              {relationshipTypes.map(type => (
+                <div key={type} className="flex items-center space-x-2">
+                  <svg width="12" height="4" aria-hidden="true">
+                    <line x1="0" y1="2" x2="12" y2="2" stroke={RELATIONSHIP_STYLES[type].color} strokeWidth="2" strokeDasharray={RELATIONSHIP_STYLES[type].dash} />
+                  </svg>
+                  <span className="text-xs">{RELATIONSHIP_STYLES[type].label}</span>
+                </div>
+              ))}
             </div>
           </div>
         </div>
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Search } from "lucide-react"
+import { normalizeHebrew } from "@/lib/hebrew"
 
 interface SemanticNode {
   id: string
@@ -84,10 +85,10 @@ export default function LexicalHypergraph({ searchTerm, onNodeClick }: LexicalHy
   const svgRef = useRef<SVGSVGElement>(null)
   const [selectedNode, setSelectedNode] = useState<SemanticNode | null>(null)
 
-  // Filter nodes by searchTerm
+  // Filter nodes by searchTerm; Hebrew matches with or without nikkud
   const filteredNodes = searchTerm
     ? sampleSemanticData.nodes.filter((node) =>
-        node.term.includes(searchTerm) ||
+        normalizeHebrew(node.term).includes(normalizeHebrew(searchTerm)) ||
         node.meaning.toLowerCase().includes(searchTerm.toLowerCase()) ||
         node.era.toLowerCase().includes(searchTerm.toLowerCase())
       )
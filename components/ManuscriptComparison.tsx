@@ -1,12 +1,14 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import SynopticComparison from "@/components/SynopticComparison"
+import { MAX_SYNOPTIC_WITNESSES, type Witness } from "@/lib/witnesses"
 
 interface Footnote {
   id: string
@@ -37,16 +39,43 @@ interface Manuscript {
 interface ManuscriptComparisonProps {
   primaryManuscript: Manuscript
   alternateManuscript: Manuscript
+  // Further manuscripts enable the synoptic view of up to six witnesses
+  additionalManuscripts?: Manuscript[]
   onClose: () => void
 }
 
+function toWitness(manuscript: Manuscript): Witness {
+  return {
+    versionTitle: manuscript.name,
+    language: "hebrew",
+    label: `${manuscript.name} (${manuscript.year})`,
+    direction: "rtl",
+    segments: manuscript.segments.map(segment => ({
+      id: segment.id,
+      ref: String(segment.id),
+      text: segment.text,
+      footnotes: segment.footnotes,
+    })),
+  }
+}
+
 export default function ManuscriptComparison({
   primaryManuscript,
   alternateManuscript,
+  additionalManuscripts = [],
   onClose,
 }: ManuscriptComparisonProps) {
   const [highlightType, setHighlightType] = useState<"all" | "linguistic" | "semantic">("all")
   const [selectedFootnote, setSelectedFootnote] = useState<string | null>(null)
+  const [view, setView] = useState<"parallel" | "synoptic">("parallel")
+  const [baseVersion, setBaseVersion] = useState(primaryManuscript.name)
+
+  const witnesses = useMemo(
+    () => [primaryManuscript, alternateManuscript, ...additionalManuscripts]
+      .slice(0, MAX_SYNOPTIC_WITNESSES)
+      .map(toWitness),
+    [primaryManuscript, alternateManuscript, additionalManuscripts]
+  )
 
   const renderTextWithChanges = (segment: Segment, isPrimary = true) => {
     if (isPrimary || !segment.changes) {
@@ -183,6 +212,16 @@ export default function ManuscriptComparison({
               <SelectItem value="semantic">Semantic Only</SelectItem>
             </SelectContent>
           </Select>
+          {additionalManuscripts.length > 0 && (
+            <div className="flex bg-slate-100 rounded-lg p-1">
+              <Button variant={view === "parallel" ? "default" : "ghost"} size="sm" className="text-xs" onClick={() => setView("parallel")}>
+                Parallel
+              </Button>
+              <Button variant={view === "synoptic" ? "default" : "ghost"} size="sm" className="text-xs" onClick={() => setView("synoptic")}>
+                Synoptic
+              </Button>
+            </div>
+          )}
         </div>
         <Button variant="ghost" onClick={onClose}>
           ✕
@@ -190,6 +229,16 @@ export default function ManuscriptComparison({
       </div>
 
       {/* Comparison View */}
+      {view === "synoptic" ? (
+        <div className="flex-1 overflow-hidden">
+          <SynopticComparison
+            witnesses={witnesses}
+            baseVersion={baseVersion}
+            onBaseVersionChange={setBaseVersion}
+            mode={highlightType === "semantic" ? "semantic" : "linguistic"}
+          />
+        </div>
+      ) : (
       <div className="flex-1 grid grid-cols-2 gap-4 p-6 overflow-auto">
         {/* Primary Manuscript */}
         <div className="border-r border-slate-200 pr-4">
@@ -231,6 +280,7 @@ export default function ManuscriptComparison({
           </div>
         </div>
       </div>
+      )}
 
       {/* Legend */}
       <div className="border-t border-slate-200 p-4 bg-slate-50">
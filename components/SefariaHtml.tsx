@@ -0,0 +1,96 @@
+"use client"
+
+import { Fragment, useMemo, type ReactNode } from "react"
+import Link from "next/link"
+import { parseRef, refToPath } from "@/lib/ref"
+import { footnoteText, markNodes, parseSefariaHtml, type HtmlNode } from "@/lib/sefaria-html"
+import type { MarkedSpan } from "@/lib/text-anchors"
+
+export type FootnoteHover = { id: string; text: string; x: number; y: number }
+
+interface SefariaHtmlProps {
+  html: string
+  // Spans of the anchor text to wrap in <mark> elements, e.g. highlights
+  spans?: MarkedSpan[]
+  // Shows a footnote's text while its marker is hovered; null when it is left.
+  // Without it the text is the marker's title.
+  onFootnoteHover?: (footnote: FootnoteHover | null) => void
+  // Number markers from footnoteStart + 1 instead of showing Sefaria's own
+  // markers, to match a list of the chapter's notes (see numberFootnotes)
+  footnoteStart?: number
+  hideFootnotes?: boolean
+}
+
+// Sefaria HTML rendered through the allow-list of lib/sefaria-html. Ref links
+// navigate within the app; footnotes collapse to their markers.
+export default function SefariaHtml({ html, spans, onFootnoteHover, footnoteStart, hideFootnotes = false }: SefariaHtmlProps) {
+  const nodes = useMemo(() => parseSefariaHtml(html), [html])
+  const marked = useMemo(() => (spans && spans.length > 0 ? markNodes(nodes, spans) : nodes), [nodes, spans])
+
+  let footnoteCount = 0
+  const render = (list: HtmlNode[]): ReactNode[] =>
+    list.map((node, index) => {
+      switch (node.type) {
+        case "text":
+          return <Fragment key={index}>{node.text}</Fragment>
+        case "break":
+          return <br key={index} />
+        case "element": {
+          const Tag = node.tag
+          return <Tag key={index}>{render(node.children)}</Tag>
+        }
+        case "refLink": {
+          const ref = parseRef(node.ref)
+          if (!ref) return <span key={index}>{render(node.children)}</span>
+          return (
+            <Link
+              key={index}
+              href={refToPath(ref)}
+              className="text-blue-700 hover:underline"
+              title={node.ref}
+              onClick={e => e.stopPropagation()}
+            >
+              {render(node.children)}
+            </Link>
+          )
+        }
+        case "namedEntity":
+          return (
+            <span key={index} className="named-entity" data-slug={node.slug}>
+              {render(node.children)}
+            </span>
+          )
+        case "footnote": {
+          if (hideFootnotes) return null
+          const text = footnoteText(node)
+          footnoteCount++
+          const label = footnoteStart === undefined ? node.marker : String(footnoteStart + footnoteCount)
+          return (
+            <sup
+              key={index}
+              className="footnote-marker text-blue-600 font-medium cursor-help px-0.5"
+              title={onFootnoteHover ? undefined : text}
+              onMouseEnter={onFootnoteHover ? e => onFootnoteHover({ id: label, text, x: e.clientX, y: e.clientY }) : undefined}
+              onMouseLeave={onFootnoteHover ? () => onFootnoteHover(null) : undefined}
+            >
+              {label}
+            </sup>
+          )
+        }
+        case "mark":
+          return (
+            <mark
+              key={index}
+              data-span-id={node.span.id}
+              className={node.span.className}
+              style={node.span.color ? { backgroundColor: node.span.color } : undefined}
+              title={node.span.title}
+            >
+              {render(node.children)}
+            </mark>
+          )
+      }
+    })
+
+  return <>{render(marked)}</>
+}
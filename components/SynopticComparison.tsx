@@ -0,0 +1,141 @@
+"use client"
+
+import { useMemo } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import DiffText from "@/components/DiffText"
+import { diffWords, variantRatio, type DiffToken, type HighlightMode } from "@/lib/text-diff"
+import { alignSynoptic, type Witness } from "@/lib/witnesses"
+
+interface SynopticComparisonProps {
+  witnesses: Witness[]
+  // versionTitle of the witness the others are diffed against
+  baseVersion: string
+  onBaseVersionChange: (versionTitle: string) => void
+  mode: HighlightMode
+  showDifferences?: boolean
+}
+
+// Heatmap color for the share of a segment that differs from the base text
+function heatColor(ratio: number): string {
+  return ratio === 0 ? "rgb(241 245 249)" : `rgba(220, 38, 38, ${(0.15 + ratio * 0.85).toFixed(2)})`
+}
+
+// N witnesses side by side, one row per segment. Every row lines up across
+// columns, so the view scrolls as a whole instead of syncing panels.
+export default function SynopticComparison({
+  witnesses,
+  baseVersion,
+  onBaseVersionChange,
+  mode,
+  showDifferences = true,
+}: SynopticComparisonProps) {
+  const baseIndex = Math.max(0, witnesses.findIndex(w => w.versionTitle === baseVersion))
+  const rows = useMemo(() => alignSynoptic(witnesses), [witnesses])
+
+  // Diff of every reading against the base reading of its row
+  const diffs = useMemo(
+    () => rows.map(row => row.readings.map((reading, column): DiffToken[] | null => {
+      const base = row.readings[baseIndex]
+      if (column === baseIndex || !reading || !base) return null
+      return diffWords(base.text, reading.text)
+    })),
+    [rows, baseIndex]
+  )
+
+  const gridTemplateColumns = `3rem 4.5rem repeat(${witnesses.length}, minmax(12rem, 1fr))`
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center space-x-2 px-6 py-3 border-b border-slate-200">
+        <label className="text-sm font-medium text-slate-700">Base text:</label>
+        <Select value={witnesses[baseIndex]?.versionTitle} onValueChange={onBaseVersionChange}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {witnesses.map(witness => (
+              <SelectItem key={witness.versionTitle} value={witness.versionTitle}>
+                {witness.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-slate-500">Other witnesses are compared with the base text.</span>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {/* Column headers */}
+        <div className="grid gap-3 px-6 py-3 sticky top-0 z-10 bg-white border-b border-slate-200" style={{ gridTemplateColumns }}>
+          <div className="text-xs font-medium text-slate-500">#</div>
+          <div className="text-xs font-medium text-slate-500">Variance</div>
+          {witnesses.map((witness, column) => (
+            <div key={witness.versionTitle} className="min-w-0">
+              <div className="text-sm font-semibold text-slate-900 truncate" title={witness.versionTitle}>
+                {witness.label}
+              </div>
+              {column === baseIndex ? (
+                <Badge variant="secondary" className="mt-1">Base</Badge>
+              ) : (
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onBaseVersionChange(witness.versionTitle)}>
+                  Use as base
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Segment rows */}
+        {rows.map((row, rowIndex) => (
+          <div key={row.id} className="grid gap-3 px-6 py-4 border-b border-slate-100" style={{ gridTemplateColumns }}>
+            <div className="text-sm font-medium text-slate-700">{row.id}</div>
+            <div className="flex flex-wrap gap-1 content-start">
+              {row.readings.map((reading, column) => {
+                if (column === baseIndex) return null
+                const tokens = diffs[rowIndex][column]
+                const ratio = tokens ? variantRatio(tokens, mode) : reading ? 0 : 1
+                return (
+                  <span
+                    key={column}
+                    className="w-3 h-3 rounded-sm"
+                    style={{ backgroundColor: heatColor(ratio) }}
+                    title={`${witnesses[column].label}: ${reading ? `${Math.round(ratio * 100)}% differs` : "missing"}`}
+                  />
+                )
+              })}
+            </div>
+            {row.readings.map((reading, column) => {
+              const witness = witnesses[column]
+              const tokens = diffs[rowIndex][column]
+              return (
+                <div
+                  key={column}
+                  className={`${witness.direction === "rtl" ? "text-right font-hebrew text-lg" : "text-left"} leading-relaxed text-slate-800 min-w-0`}
+                  dir={witness.direction}
+                >
+                  {!reading ? (
+                    <span className="text-sm italic text-slate-400">—</span>
+                  ) : showDifferences && tokens ? (
+                    <DiffText tokens={tokens} mode={mode} />
+                  ) : (
+                    reading.text
+                  )}
+                  {reading && reading.footnotes.length > 0 && (
+                    <div className="mt-2 space-y-1" dir="ltr">
+                      {reading.footnotes.map(footnote => (
+                        <div key={footnote.id} className="text-xs text-slate-600 text-left">
+                          <span className="text-blue-600 font-medium">[{footnote.id}]</span> {footnote.text}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
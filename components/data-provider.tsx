@@ -3,6 +3,7 @@
 import type React from "react"
 
 import { createContext, useContext, useEffect, useMemo, useState } from "react"
+import { sefaria } from "@/lib/sefaria-api"
 
 export type SefariaItem = {
   order: number
@@ -24,14 +25,9 @@ type LibraryContextValue = {
 
 const LibraryContext = createContext<LibraryContextValue | undefined>(undefined)
 
-const STORAGE_KEY = "sefaria:index:v1"
-
 async function fetchSefariaIndex(): Promise<SefariaItem[]> {
-  const res = await fetch("https://www.sefaria.org/api/index")
-  if (!res.ok) {
-    throw new Error(`HTTP ${res.status}`)
-  }
-  const raw: any[] = await res.json()
+  const root = await sefaria.getIndex()
+  const raw: any[] = root.contents ?? []
   const mapped: SefariaItem[] = raw.map((item: any) => ({
     order: item.order,
     category: item.category,
@@ -53,39 +49,12 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
   const [status, setStatus] = useState<Status>("idle")
   const [error, setError] = useState<string | null>(null)
 
-  const loadFromStorage = (): SefariaItem[] | null => {
-    try {
-      const cached = sessionStorage.getItem(STORAGE_KEY)
-      if (!cached) return null
-      const parsed = JSON.parse(cached)
-      if (Array.isArray(parsed)) return parsed as SefariaItem[]
-      return null
-    } catch {
-      return null
-    }
-  }
-
-  const saveToStorage = (items: SefariaItem[]) => {
-    try {
-      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(items))
-    } catch {
-      // ignore storage errors
-    }
-  }
-
   const initialize = async () => {
     setStatus("loading")
     setError(null)
-    const cached = loadFromStorage()
-    if (cached && cached.length > 0) {
-      setData(cached)
-      setStatus("ready")
-      return
-    }
     try {
       const fresh = await fetchSefariaIndex()
       setData(fresh)
-      saveToStorage(fresh)
       setStatus("ready")
     } catch (e: any) {
       setError("Failed to load categories. Please try again later.")
@@ -102,9 +71,9 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     setStatus("loading")
     setError(null)
     try {
+      await sefaria.invalidateIndex()
       const fresh = await fetchSefariaIndex()
       setData(fresh)
-      saveToStorage(fresh)
       setStatus("ready")
     } catch {
       setError("Failed to refresh categories. Please try again later.")
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input"
 import { useLanguage } from "./language-context"
 import { GlobalLanguageSwitcher } from "./global-language-switcher"
 import { getTranslation } from "@/lib/translations"
+import { searchUrl } from "@/lib/search"
 import { useRouter } from "next/navigation";
 import React, { useRef, useState, useEffect } from "react";
 
@@ -14,6 +15,7 @@ export default function SiteHeader({ onCalendarClick }: { onCalendarClick?: () =
     const { language } = useLanguage()
     const router = useRouter();
     const [exploreOpen, setExploreOpen] = useState(false);
+    const [searchText, setSearchText] = useState("");
     const exploreRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -90,14 +92,23 @@ export default function SiteHeader({ onCalendarClick }: { onCalendarClick?: () =
                     </div>
                     {/* Right: Search, Icons, Auth */}
                     <div className="flex items-center space-x-4 flex-grow justify-end">
-                        <div className="relative hidden sm:block">
+                        <form
+                            className="relative hidden sm:block"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                const query = searchText.trim();
+                                if (query) router.push(searchUrl({ text: query }));
+                            }}
+                        >
                             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
                             <Input
                                 type="search"
+                                value={searchText}
+                                onChange={(e) => setSearchText(e.target.value)}
                                 placeholder={getTranslation(language, "searchPlaceholder")}
                                 className="pl-10 w-64 bg-slate-100 border-0 focus:bg-white focus:ring-2 focus:ring-blue-500"
                             />
-                        </div>
+                        </form>
                         {/* Calendar Icon Button */}
                         <Button
                             variant="ghost"
@@ -17,7 +17,7 @@ export function TextsSidebar() {
       try {
         setCalendarLoading(true);
         setCalendarError(null);
-        const res = await fetch("https://www.sefaria.org/api/calendars", { cache: "no-store" });
+        const res = await fetch("/api/calendars", { cache: "no-store" });
         if (!res.ok) throw new Error(`Calendars request failed: ${res.status}`);
         const data = await res.json();
         setCalendarItems(Array.isArray(data?.calendar_items) ? data.calendar_items : []);
@@ -0,0 +1,51 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  getAnnotationRepository,
+  type Annotation,
+  type AnnotationDraft,
+} from "@/lib/annotations"
+
+// Annotations of one book, with create/update/delete that keep the list current
+export function useAnnotations(book: string) {
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      setAnnotations(await getAnnotationRepository().list(book))
+      setError(null)
+    } catch (err) {
+      console.error("Failed to load annotations:", err)
+      setError(err instanceof Error ? err.message : "Failed to load annotations")
+    } finally {
+      setLoading(false)
+    }
+  }, [book])
+
+  useEffect(() => {
+    setLoading(true)
+    void reload()
+  }, [reload])
+
+  const create = useCallback(async (draft: AnnotationDraft) => {
+    const annotation = await getAnnotationRepository().create(draft)
+    await reload()
+    return annotation
+  }, [reload])
+
+  const update = useCallback(async (id: string, changes: Partial<Omit<AnnotationDraft, "ref">>) => {
+    const annotation = await getAnnotationRepository().update(id, changes)
+    await reload()
+    return annotation
+  }, [reload])
+
+  const remove = useCallback(async (id: string) => {
+    await getAnnotationRepository().delete(id)
+    await reload()
+  }, [reload])
+
+  return { annotations, loading, error, create, update, remove }
+}
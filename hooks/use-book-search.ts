@@ -0,0 +1,100 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { downloadBookBundle, type BundleProgress } from "@/lib/book-bundle"
+import type { SearchResults } from "@/lib/search"
+import { getLocalSearchIndex, type IndexedVerse } from "@/lib/search-index"
+
+// Most hits listed for an instant search; the /search page pages through the rest
+const MAX_INSTANT_HITS = 50
+
+// Instant search within one book over the local index, which grows as the
+// reader loads chapters through indexChapter, or all at once when the whole
+// book is downloaded through downloadBook
+export function useBookSearch(book: string, text: string) {
+  const [results, setResults] = useState<SearchResults | null>(null)
+  const [indexedChapters, setIndexedChapters] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  // Bumped whenever a chapter is added, so the current query reruns
+  const [revision, setRevision] = useState(0)
+  const [downloadProgress, setDownloadProgress] = useState<BundleProgress | null>(null)
+  const downloadRef = useRef<AbortController | null>(null)
+
+  const indexChapter = useCallback(async (chapter: string | number, verses: IndexedVerse[]) => {
+    try {
+      if (await getLocalSearchIndex().addChapter(book, chapter, verses)) setRevision(r => r + 1)
+    } catch (err) {
+      console.error("Failed to index chapter:", err)
+    }
+  }, [book])
+
+  // Download the given sections of the book (those not indexed yet) and index
+  // them as one bundle
+  const downloadBook = useCallback(async (sections: string[]) => {
+    if (downloadRef.current) return
+    const controller = new AbortController()
+    downloadRef.current = controller
+    try {
+      const indexed = await getLocalSearchIndex().indexedChapters(book)
+      const missing = sections.filter(section => !indexed.includes(section))
+      setDownloadProgress({ done: 0, total: missing.length })
+      const bundle = await downloadBookBundle(book, missing, {
+        signal: controller.signal,
+        onProgress: setDownloadProgress,
+      })
+      if (await getLocalSearchIndex().addBundle(bundle)) setRevision(r => r + 1)
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Failed to download the book:", err)
+        setError(err instanceof Error ? err.message : "Download failed")
+      }
+    } finally {
+      downloadRef.current = null
+      if (!controller.signal.aborted) setDownloadProgress(null)
+    }
+  }, [book])
+
+  // Stop a download when the book changes or the reader is left
+  useEffect(() => () => {
+    downloadRef.current?.abort()
+    setDownloadProgress(null)
+  }, [book])
+
+  useEffect(() => {
+    let cancelled = false
+    getLocalSearchIndex()
+      .indexedChapters(book)
+      .then(chapters => {
+        if (!cancelled) setIndexedChapters([...chapters])
+      })
+      .catch(err => console.error("Failed to read the search index:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [book, revision])
+
+  useEffect(() => {
+    const query = text.trim()
+    if (!query) {
+      setResults(null)
+      return
+    }
+    let cancelled = false
+    getLocalSearchIndex()
+      .search({ text: query, mode: "prefix", language: "all", book, page: 1, pageSize: MAX_INSTANT_HITS })
+      .then(data => {
+        if (cancelled) return
+        setResults(data)
+        setError(null)
+      })
+      .catch(err => {
+        console.error("Local search failed:", err)
+        if (!cancelled) setError(err instanceof Error ? err.message : "Search failed")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [book, text, revision])
+
+  return { results, indexedChapters, error, indexChapter, downloadBook, downloadProgress }
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  fetchCommentary,
+  readPinnedCommentators,
+  writePinnedCommentators,
+  type CommentatorGroup,
+} from "@/lib/commentary"
+
+// While scrolling the active verse changes quickly; only load once it settles
+const SETTLE_MS = 300
+
+// Commentaries on `ref`, reloaded whenever it changes; nothing while it is null
+export function useCommentary(ref: string | null) {
+  const [groups, setGroups] = useState<CommentatorGroup[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!ref) return
+    let cancelled = false
+    setLoading(true)
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchCommentary(ref)
+        if (cancelled) return
+        setGroups(result)
+        setError(null)
+      } catch (err) {
+        if (cancelled) return
+        console.error(`Failed to load commentary for ${ref}:`, err)
+        setGroups([])
+        setError(err instanceof Error ? err.message : "Failed to load commentary")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, SETTLE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [ref])
+
+  return { groups, loading, error }
+}
+
+// Pinned commentators, kept in localStorage
+export function usePinnedCommentators() {
+  const [pinned, setPinned] = useState<string[]>([])
+
+  useEffect(() => {
+    setPinned(readPinnedCommentators())
+  }, [])
+
+  const togglePin = useCallback((commentator: string) => {
+    setPinned(prev => {
+      const next = prev.includes(commentator) ? prev.filter(name => name !== commentator) : [...prev, commentator]
+      writePinnedCommentators(next)
+      return next
+    })
+  }, [])
+
+  return { pinned, togglePin }
+}
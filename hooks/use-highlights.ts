@@ -0,0 +1,48 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  getHighlightRepository,
+  type Highlight,
+  type HighlightColor,
+  type HighlightDraft,
+} from "@/lib/highlights"
+
+// Highlights of one book, with create/recolor/delete that keep the list current
+export function useHighlights(book: string) {
+  const [highlights, setHighlights] = useState<Highlight[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      setHighlights(await getHighlightRepository().list(book))
+      setError(null)
+    } catch (err) {
+      console.error("Failed to load highlights:", err)
+      setError(err instanceof Error ? err.message : "Failed to load highlights")
+    }
+  }, [book])
+
+  useEffect(() => {
+    void reload()
+  }, [reload])
+
+  const create = useCallback(async (draft: HighlightDraft) => {
+    const highlight = await getHighlightRepository().create(draft)
+    await reload()
+    return highlight
+  }, [reload])
+
+  const recolor = useCallback(async (id: string, color: HighlightColor) => {
+    const highlight = await getHighlightRepository().recolor(id, color)
+    await reload()
+    return highlight
+  }, [reload])
+
+  const remove = useCallback(async (id: string) => {
+    await getHighlightRepository().delete(id)
+    await reload()
+  }, [reload])
+
+  return { highlights, error, create, recolor, remove }
+}
@@ -0,0 +1,88 @@
+"use client"
+
+import { useEffect, type RefObject } from "react"
+
+const DEFAULT_ATTRIBUTE = "data-paragraph-id"
+
+// Offset of an element from the top of a panel's scrollable content
+function offsetWithin(panel: HTMLElement, element: HTMLElement): number {
+  return element.getBoundingClientRect().top - panel.getBoundingClientRect().top + panel.scrollTop
+}
+
+// The segment at the top of a panel, and how far through it the panel has
+// scrolled (0 at its top edge, 1 at its bottom edge)
+function topSegment(panel: HTMLElement, attribute: string): { id: string; progress: number } | null {
+  const segments = panel.querySelectorAll<HTMLElement>(`[${attribute}]`)
+  for (const segment of Array.from(segments)) {
+    const top = offsetWithin(panel, segment)
+    const height = segment.offsetHeight
+    if (top + height > panel.scrollTop) {
+      const progress = height > 0 ? Math.min(1, Math.max(0, (panel.scrollTop - top) / height)) : 0
+      return { id: segment.getAttribute(attribute)!, progress }
+    }
+  }
+  return null
+}
+
+// The counterpart of a segment in another panel. When that panel lacks the
+// segment, the closest segment before it (by numeric id) stands in.
+function findSegment(panel: HTMLElement, attribute: string, id: string): HTMLElement | null {
+  const exact = panel.querySelector<HTMLElement>(`[${attribute}="${CSS.escape(id)}"]`)
+  if (exact) return exact
+  const target = Number(id)
+  if (!Number.isFinite(target)) return null
+  let best: HTMLElement | null = null
+  for (const segment of Array.from(panel.querySelectorAll<HTMLElement>(`[${attribute}]`))) {
+    const value = Number(segment.getAttribute(attribute))
+    if (Number.isFinite(value) && value <= target) best = segment
+  }
+  return best
+}
+
+// Keep scrollable panels aligned on their segments: whichever panel the
+// reader scrolls, the others scroll so that the same segment is at the top,
+// the same fraction of the way through. Segments are matched by the value of
+// `attribute` (data-paragraph-id by default), so panels whose segments differ
+// in length — two versions, or Hebrew beside English — stay in step. Segments
+// are looked up on every scroll, so panels may re-render freely while mounted.
+export function useSegmentScrollSync(
+  panels: Array<RefObject<HTMLElement>>,
+  enabled: boolean,
+  attribute = DEFAULT_ATTRIBUTE
+) {
+  useEffect(() => {
+    const elements = panels.map(panel => panel.current).filter((panel): panel is HTMLElement => Boolean(panel))
+    if (!enabled || elements.length < 2) return
+
+    // Panels scrolled by us, whose next scroll event must not be echoed back
+    const driven = new Set<HTMLElement>()
+
+    const handlers = elements.map(source => {
+      const handleScroll = () => {
+        if (driven.delete(source)) return
+        const anchor = topSegment(source, attribute)
+        if (!anchor) return
+
+        for (const target of elements) {
+          if (target === source) continue
+          const counterpart = findSegment(target, attribute, anchor.id)
+          if (!counterpart) continue
+          const scrollTop = Math.round(offsetWithin(target, counterpart) + anchor.progress * counterpart.offsetHeight)
+          const before = target.scrollTop
+          if (Math.abs(before - scrollTop) < 1) continue
+          driven.add(target)
+          target.scrollTop = scrollTop
+          // Already at the end of its content: no scroll event will follow
+          if (target.scrollTop === before) driven.delete(target)
+        }
+      }
+      source.addEventListener("scroll", handleScroll, { passive: true })
+      return { source, handleScroll }
+    })
+
+    return () => {
+      for (const { source, handleScroll } of handlers) source.removeEventListener("scroll", handleScroll)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, attribute])
+}
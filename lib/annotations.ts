@@ -0,0 +1,130 @@
+// User annotations on verses.
+//
+// An annotation is anchored to a ref ("Genesis 1:3" or a range such as
+// "Genesis 1:3-5") and optionally to a character range within the Hebrew or
+// English text of its first verse. Annotations are kept by an
+// AnnotationRepository, by default on a RecordStore (localStorage in the
+// browser, memory elsewhere). A server-backed repository can be swapped in
+// with setAnnotationRepository without touching the UI.
+
+import { compareAddresses, formatRef, makeRef, parseRef, refIncludes } from "./ref"
+import { createDefaultRecordStore, MemoryRecordStore, newId, type RecordStore } from "./record-store"
+import type { MarkedSpan, TextSpan } from "./text-anchors"
+
+export type AnnotationType = "halakhic" | "aggadic" | "question" | "insight" | "linguistic" | "personal"
+
+export const ANNOTATION_TYPES: Record<AnnotationType, { label: string; className: string; color: string }> = {
+  halakhic: { label: "Halakhic", className: "bg-blue-100 text-blue-800", color: "#2563eb" },
+  aggadic: { label: "Aggadic", className: "bg-red-100 text-red-800", color: "#dc2626" },
+  question: { label: "Question", className: "bg-amber-100 text-amber-800", color: "#d97706" },
+  insight: { label: "Insight", className: "bg-emerald-100 text-emerald-800", color: "#059669" },
+  linguistic: { label: "Linguistic", className: "bg-slate-200 text-slate-800", color: "#475569" },
+  personal: { label: "Personal", className: "bg-purple-100 text-purple-800", color: "#7c3aed" },
+}
+
+// A span of the anchor text (see text-anchors) of one language of a verse
+export type AnnotationRange = TextSpan & {
+  language: "he" | "en"
+}
+
+export type Annotation = {
+  id: string
+  ref: string // Canonical ref, e.g. "Genesis 1:3"
+  book: string
+  type: AnnotationType
+  text: string
+  range?: AnnotationRange
+  createdAt: string
+  updatedAt: string
+}
+
+export type AnnotationDraft = Pick<Annotation, "ref" | "type" | "text" | "range">
+
+export interface AnnotationRepository {
+  list(book: string): Promise<Annotation[]>
+  create(draft: AnnotationDraft): Promise<Annotation>
+  update(id: string, changes: Partial<Omit<AnnotationDraft, "ref">>): Promise<Annotation>
+  delete(id: string): Promise<void>
+}
+
+function toAnnotation(draft: AnnotationDraft): Annotation {
+  const ref = parseRef(draft.ref)
+  if (!ref) throw new Error(`Not a ref: ${draft.ref}`)
+  const now = new Date().toISOString()
+  return { ...draft, id: newId(), ref: formatRef(ref), book: ref.book, createdAt: now, updatedAt: now }
+}
+
+// Annotations of a book in reading order, then oldest first
+function sortAnnotations(annotations: Annotation[]): Annotation[] {
+  const address = (annotation: Annotation) => parseRef(annotation.ref)?.sections || []
+  return [...annotations].sort((a, b) =>
+    compareAddresses(address(a), address(b)) || a.createdAt.localeCompare(b.createdAt)
+  )
+}
+
+// Annotations kept as one list in a RecordStore
+export class StoredAnnotationRepository implements AnnotationRepository {
+  constructor(private store: RecordStore<Annotation> = new MemoryRecordStore()) {}
+
+  async list(book: string): Promise<Annotation[]> {
+    return sortAnnotations((await this.store.load()).filter(annotation => annotation.book === book))
+  }
+
+  async create(draft: AnnotationDraft): Promise<Annotation> {
+    const annotation = toAnnotation(draft)
+    await this.store.save([...(await this.store.load()), annotation])
+    return annotation
+  }
+
+  async update(id: string, changes: Partial<Omit<AnnotationDraft, "ref">>): Promise<Annotation> {
+    const annotations = await this.store.load()
+    const existing = annotations.find(annotation => annotation.id === id)
+    if (!existing) throw new Error(`No annotation ${id}`)
+    const updated = { ...existing, ...changes, updatedAt: new Date().toISOString() }
+    await this.store.save(annotations.map(annotation => (annotation.id === id ? updated : annotation)))
+    return updated
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.save((await this.store.load()).filter(annotation => annotation.id !== id))
+  }
+}
+
+export function createDefaultAnnotationRepository(): AnnotationRepository {
+  return new StoredAnnotationRepository(createDefaultRecordStore("sefaria-annotations", "annotations"))
+}
+
+let repository: AnnotationRepository | null = null
+
+export function getAnnotationRepository(): AnnotationRepository {
+  if (!repository) repository = createDefaultAnnotationRepository()
+  return repository
+}
+
+export function setAnnotationRepository(next: AnnotationRepository) {
+  repository = next
+}
+
+// Whether an annotation is attached to the verse at `address`, e.g. [1, 3]
+export function annotationCovers(annotation: Annotation, address: Array<string | number>): boolean {
+  const ref = parseRef(annotation.ref)
+  return ref ? refIncludes(ref, address) : false
+}
+
+// Ref of the verse an annotation's range is in: the first verse of its ref
+function firstVerse(annotation: Annotation): string | null {
+  const ref = parseRef(annotation.ref)
+  return ref ? formatRef(makeRef(ref.book, ref.sections)) : null
+}
+
+// Spans to mark for the annotations anchored to text in one language of a verse
+export function annotationSpans(annotations: Annotation[], ref: string, language: "he" | "en"): MarkedSpan[] {
+  return annotations
+    .filter(annotation => annotation.range?.language === language && firstVerse(annotation) === ref)
+    .map(annotation => ({
+      ...annotation.range!,
+      id: annotation.id,
+      className: "annotation-anchor",
+      title: `${ANNOTATION_TYPES[annotation.type].label}: ${annotation.text}`,
+    }))
+}
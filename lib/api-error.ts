@@ -0,0 +1,27 @@
+// Error shape shared by every route handler in app/api:
+// `{ "error": { "status": 404, "message": "..." } }`
+
+import { NextResponse } from "next/server"
+
+export type ApiErrorBody = {
+  error: {
+    status: number
+    message: string
+  }
+}
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+export function errorResponse(error: unknown, logPrefix = "[api]"): NextResponse<ApiErrorBody> {
+  const status = error instanceof ApiError ? error.status : 500
+  const message = error instanceof Error ? error.message : "Unknown error"
+  if (status >= 500) {
+    console.error(logPrefix, error)
+  }
+  return NextResponse.json({ error: { status, message } }, { status })
+}
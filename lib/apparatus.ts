@@ -0,0 +1,280 @@
+// Critical apparatus for a comparison of two witnesses in the topology modal.
+//
+// The aligned segments are diffed word by word (lib/text-diff.ts) and written
+// out as a TEI XML apparatus (parallel segmentation, <app>/<rdg> with witness
+// sigla), as a printable synoptic HTML table, or as a CSV of variants.
+// Footnotes of both witnesses are carried along in every format.
+
+import { downloadBlob, escapeXml, exportFileName } from "./download"
+import { diffWords, isHighlighted, DIFF_KIND_STYLES, type DiffToken, type HighlightMode, type VariantKind } from "./text-diff"
+import type { AlignedSegment, Witness, WitnessFootnote } from "./witnesses"
+
+export type ApparatusFormat = "tei" | "html" | "csv"
+
+export const APPARATUS_FORMATS: { format: ApparatusFormat; label: string }[] = [
+  { format: "tei", label: "TEI XML apparatus" },
+  { format: "html", label: "Synoptic table (HTML)" },
+  { format: "csv", label: "Variants (CSV)" },
+]
+
+export type ApparatusWitness = {
+  siglum: string
+  witness: Witness
+}
+
+export type ApparatusVariant = {
+  kind: VariantKind
+  base: string // Reading of the base witness; empty when it lacks the words
+  reading: string // Reading of the compared witness; empty when it lacks the words
+}
+
+export type ApparatusSegment = {
+  id: number
+  ref: string
+  baseText?: string
+  text?: string
+  tokens: DiffToken[]
+  variants: ApparatusVariant[]
+  baseFootnotes: WitnessFootnote[]
+  footnotes: WitnessFootnote[]
+}
+
+export type Apparatus = {
+  ref: string
+  mode: HighlightMode
+  base: ApparatusWitness
+  compared: ApparatusWitness
+  segments: ApparatusSegment[]
+}
+
+// Sigla are assigned in order: A for the base text, B for the compared witness
+const SIGLA = "ABCDEFGHIJKLMNOPQRSTUVWXYZ"
+
+// Variants of one segment; a run of consecutive differences of the same kind
+// becomes a single variant
+function collectVariants(tokens: DiffToken[], mode: HighlightMode): ApparatusVariant[] {
+  const variants: ApparatusVariant[] = []
+  let inRun = false
+  for (const token of tokens) {
+    if (!isHighlighted(token, mode)) {
+      inRun = false
+      continue
+    }
+    const last = variants[variants.length - 1]
+    if (inRun && last.kind === token.kind) {
+      last.base = [last.base, token.base].filter(Boolean).join(" ")
+      last.reading = [last.reading, token.text].filter(Boolean).join(" ")
+    } else {
+      variants.push({ kind: token.kind, base: token.base || "", reading: token.text || "" })
+    }
+    inRun = true
+  }
+  return variants
+}
+
+export function buildApparatus(
+  ref: string,
+  base: Witness,
+  compared: Witness,
+  rows: AlignedSegment[],
+  mode: HighlightMode = "linguistic"
+): Apparatus {
+  const segments = rows.map(({ id, ref: segmentRef, primary, alternate }) => {
+    const tokens = diffWords(primary?.text || "", alternate?.text || "", { refineCharacters: false })
+    return {
+      id,
+      ref: segmentRef,
+      baseText: primary?.text,
+      text: alternate?.text,
+      tokens,
+      variants: collectVariants(tokens, mode),
+      baseFootnotes: primary?.footnotes || [],
+      footnotes: alternate?.footnotes || [],
+    }
+  })
+  return {
+    ref,
+    mode,
+    base: { siglum: SIGLA[0], witness: base },
+    compared: { siglum: SIGLA[1], witness: compared },
+    segments,
+  }
+}
+
+// Parallel-segmentation text of a segment: shared words inline, every
+// highlighted difference as an <app> with one <rdg> per witness
+function teiSegment(segment: ApparatusSegment, apparatus: Apparatus): string {
+  const a = `#${apparatus.base.siglum}`
+  const b = `#${apparatus.compared.siglum}`
+  const words = segment.tokens.map(token => {
+    // Shared words, and spelling variants in semantic mode, follow the base text
+    if (!isHighlighted(token, apparatus.mode)) return escapeXml(token.base || token.text || "")
+    const rdg = (wit: string, text?: string) =>
+      text ? `<rdg wit="${wit}">${escapeXml(text)}</rdg>` : `<rdg wit="${wit}"/>`
+    return `<app type="${token.kind}">${rdg(a, token.base)}${rdg(b, token.text)}</app>`
+  })
+
+  const notes = [
+    ...segment.baseFootnotes.map(note => ({ wit: a, note })),
+    ...segment.footnotes.map(note => ({ wit: b, note })),
+  ].map(({ wit, note }) => `\n          <note type="footnote" source="${wit}" n="${escapeXml(note.id)}">${escapeXml(note.text)}</note>`)
+
+  return `        <ab n="${segment.id}" corresp="${escapeXml(segment.ref)}">${words.filter(Boolean).join(" ")}${notes.join("")}${notes.length ? "\n        " : ""}</ab>`
+}
+
+function teiWitness({ siglum, witness }: ApparatusWitness): string {
+  const source = witness.source ? ` <ref target="${escapeXml(witness.source)}"/>` : ""
+  return `            <witness xml:id="${siglum}">${escapeXml(witness.versionTitle)}${source}</witness>`
+}
+
+export function apparatusToTEI(apparatus: Apparatus): string {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<TEI xmlns="http://www.tei-c.org/ns/1.0">`,
+    `  <teiHeader>`,
+    `    <fileDesc>`,
+    `      <titleStmt>`,
+    `        <title>Critical apparatus: ${escapeXml(apparatus.ref)}</title>`,
+    `      </titleStmt>`,
+    `      <publicationStmt>`,
+    `        <p>Exported ${new Date().toISOString().slice(0, 10)}</p>`,
+    `      </publicationStmt>`,
+    `      <sourceDesc>`,
+    `        <listWit>`,
+    teiWitness(apparatus.base),
+    teiWitness(apparatus.compared),
+    `        </listWit>`,
+    `      </sourceDesc>`,
+    `    </fileDesc>`,
+    `    <encodingDesc>`,
+    `      <variantEncoding method="parallel-segmentation" location="internal"/>`,
+    `    </encodingDesc>`,
+    `  </teiHeader>`,
+    `  <text>`,
+    `    <body>`,
+    `      <div n="${escapeXml(apparatus.ref)}">`,
+    ...apparatus.segments.map(segment => teiSegment(segment, apparatus)),
+    `      </div>`,
+    `    </body>`,
+    `  </text>`,
+    `</TEI>`,
+    ``,
+  ].join("\n")
+}
+
+function htmlFootnotes(footnotes: WitnessFootnote[]): string {
+  return footnotes
+    .map(note => `<div class="note"><sup>${escapeXml(note.id)}</sup> ${escapeXml(note.text)}</div>`)
+    .join("")
+}
+
+function htmlReading(witness: Witness, text?: string): string {
+  if (!text) return `<span class="missing">—</span>`
+  return `<span dir="${witness.direction}">${escapeXml(text)}</span>`
+}
+
+// Standalone HTML document with one row per segment, styled for printing
+export function apparatusToHTML(apparatus: Apparatus): string {
+  const { base, compared } = apparatus
+  const rows = apparatus.segments.map(segment => {
+    const variants = segment.variants
+      .map(variant =>
+        `<li><span class="kind">${DIFF_KIND_STYLES[variant.kind].label}</span> ` +
+        `${escapeXml(variant.base || "om.")} ${base.siglum}] ${escapeXml(variant.reading || "om.")} ${compared.siglum}</li>`
+      )
+      .join("")
+    return [
+      `<tr>`,
+      `<td class="num">${segment.id}</td>`,
+      `<td class="${base.witness.direction}">${htmlReading(base.witness, segment.baseText)}${htmlFootnotes(segment.baseFootnotes)}</td>`,
+      `<td class="${compared.witness.direction}">${htmlReading(compared.witness, segment.text)}${htmlFootnotes(segment.footnotes)}</td>`,
+      `<td>${variants ? `<ul>${variants}</ul>` : ""}</td>`,
+      `</tr>`,
+    ].join("")
+  })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(apparatus.ref)} — ${escapeXml(base.witness.label)} / ${escapeXml(compared.witness.label)}</title>
+<style>
+  body { font-family: Georgia, "Times New Roman", serif; margin: 2rem; color: #0f172a; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+  p.sigla { margin-top: 0; color: #475569; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #cbd5e1; padding: 0.5rem; vertical-align: top; }
+  th { background: #f1f5f9; text-align: left; }
+  td.num { width: 2.5rem; text-align: center; color: #64748b; }
+  td.rtl { direction: rtl; text-align: right; font-size: 1.15rem; }
+  ul { margin: 0; padding-left: 1rem; }
+  .kind { font-variant: small-caps; color: #64748b; }
+  .missing { color: #94a3b8; }
+  .note { font-size: 0.8rem; color: #475569; margin-top: 0.25rem; direction: ltr; text-align: left; }
+  @media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeXml(apparatus.ref)}</h1>
+<p class="sigla">${base.siglum} = ${escapeXml(base.witness.versionTitle)}; ${compared.siglum} = ${escapeXml(compared.witness.versionTitle)}</p>
+<table>
+<thead><tr><th>#</th><th>${base.siglum}: ${escapeXml(base.witness.label)}</th><th>${compared.siglum}: ${escapeXml(compared.witness.label)}</th><th>Apparatus</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+</body>
+</html>
+`
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One row per variant, then one row per footnote (type "footnote")
+export function apparatusToCSV(apparatus: Apparatus): string {
+  const { base, compared } = apparatus
+  const header = ["ref", "segment", "type", "witness", `${base.siglum} reading`, `${compared.siglum} reading`, "note"]
+  const rows: Array<Array<string | number>> = []
+  for (const segment of apparatus.segments) {
+    for (const variant of segment.variants) {
+      rows.push([segment.ref, segment.id, variant.kind, "", variant.base, variant.reading, ""])
+    }
+    for (const note of segment.baseFootnotes) {
+      rows.push([segment.ref, segment.id, "footnote", base.siglum, "", "", note.text])
+    }
+    for (const note of segment.footnotes) {
+      rows.push([segment.ref, segment.id, "footnote", compared.siglum, "", "", note.text])
+    }
+  }
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\n") + "\n"
+}
+
+// Open the synoptic table in a new window and bring up the print dialog,
+// from which it can be saved as PDF
+export function printApparatus(apparatus: Apparatus) {
+  const printWindow = window.open("", "_blank")
+  if (!printWindow) throw new Error("The print window was blocked")
+  printWindow.document.write(apparatusToHTML(apparatus))
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.onload = () => printWindow.print()
+}
+
+export function exportApparatus(format: ApparatusFormat, apparatus: Apparatus) {
+  const fileName = `${exportFileName(apparatus.ref)}-apparatus`
+  switch (format) {
+    case "tei":
+      downloadBlob(new Blob([apparatusToTEI(apparatus)], { type: "application/tei+xml" }), `${fileName}.xml`)
+      return
+    case "html":
+      downloadBlob(new Blob([apparatusToHTML(apparatus)], { type: "text/html" }), `${fileName}.html`)
+      return
+    case "csv":
+      // Byte-order mark so spreadsheet programs read the Hebrew as UTF-8
+      downloadBlob(new Blob(["\uFEFF", apparatusToCSV(apparatus)], { type: "text/csv" }), `${fileName}.csv`)
+      return
+  }
+}
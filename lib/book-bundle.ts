@@ -0,0 +1,54 @@
+// Download of a whole book as a BookBundle, for the local search index: the
+// text of each of its top-level sections, fetched through our /api/texts
+// route (so a fixture bundle is used in fixture mode, see lib/data-source.ts).
+
+import { formatRef, makeRef } from "./ref"
+import type { BookBundle, IndexedVerse } from "./search-index"
+
+export type BundleProgress = { done: number; total: number }
+
+// Verses of a v3 texts response, Hebrew and English paired by position
+function bundleVerses(data: any): IndexedVerse[] {
+  const versionText = (language: string): unknown[] => {
+    const text = data?.versions?.find((version: any) => version.language === language)?.text
+    return Array.isArray(text) ? text : []
+  }
+  const he = versionText("he")
+  const en = versionText("en")
+  const verses: IndexedVerse[] = []
+  for (let i = 0; i < Math.max(he.length, en.length); i++) {
+    const verse = {
+      verse: i + 1,
+      he: typeof he[i] === "string" ? (he[i] as string) : "",
+      en: typeof en[i] === "string" ? (en[i] as string) : "",
+    }
+    if (verse.he || verse.en) verses.push(verse)
+  }
+  return verses
+}
+
+// Fetch `sections` of `book` one after another. Sections that fail to load are
+// left out of the bundle; aborting `signal` stops the download.
+export async function downloadBookBundle(
+  book: string,
+  sections: string[],
+  options: { signal?: AbortSignal; onProgress?: (progress: BundleProgress) => void } = {}
+): Promise<BookBundle> {
+  const { signal, onProgress } = options
+  const bundle: BookBundle = { book, chapters: [] }
+  let done = 0
+  for (const section of sections) {
+    signal?.throwIfAborted()
+    const ref = formatRef(makeRef(book, [section]), "url")
+    try {
+      const response = await fetch(`/api/texts/${encodeURIComponent(ref)}?version=hebrew&version=translation`, { signal })
+      if (!response.ok) throw new Error(`Failed to fetch ${ref}: ${response.status}`)
+      bundle.chapters.push({ chapter: section, verses: bundleVerses(await response.json()) })
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.warn("[BookBundle]", error)
+    }
+    onProgress?.({ done: ++done, total: sections.length })
+  }
+  return bundle
+}
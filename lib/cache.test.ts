@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import { MemoryCacheBackend } from "./cache"
+
+const HOUR = 60 * 60 * 1000
+
+describe("MemoryCacheBackend", () => {
+  it("evicts the least recently used entry beyond its size", async () => {
+    const cache = new MemoryCacheBackend(2)
+    await cache.set("a", { value: 1, expiresAt: Date.now() + HOUR })
+    await cache.set("b", { value: 2, expiresAt: Date.now() + HOUR })
+    await cache.get("a")
+    await cache.set("c", { value: 3, expiresAt: Date.now() + HOUR })
+
+    expect(await cache.get("a")).toBeDefined()
+    expect(await cache.get("b")).toBeUndefined()
+    expect(await cache.get("c")).toBeDefined()
+  })
+
+  it("drops expired entries", async () => {
+    const cache = new MemoryCacheBackend(2)
+    await cache.set("old", { value: 1, expiresAt: Date.now() - 1 })
+    expect(await cache.get("old")).toBeUndefined()
+
+    await cache.set("a", { value: 1, expiresAt: Date.now() - 1 })
+    await cache.set("b", { value: 2, expiresAt: Date.now() + HOUR })
+    await cache.set("c", { value: 3, expiresAt: Date.now() + HOUR })
+    expect(await cache.get("b")).toBeDefined()
+    expect(await cache.get("c")).toBeDefined()
+  })
+})
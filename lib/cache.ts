@@ -0,0 +1,211 @@
+// Pluggable request cache used by SefariaAPI and the pages that load Sefaria data.
+//
+// Entries carry their own expiry so each endpoint can pick a TTL. Concurrent
+// requests for the same key share one in-flight promise. In the browser the
+// entries are persisted in IndexedDB; on the server (and wherever IndexedDB is
+// unavailable) they live in memory for the lifetime of the process.
+
+export type CacheEntry<T> = {
+  value: T
+  expiresAt: number
+}
+
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>
+  delete(key: string): Promise<void>
+  // Remove every entry, or only those whose key starts with `prefix`
+  clear(prefix?: string): Promise<void>
+}
+
+// Time-to-live per endpoint, in milliseconds
+export const CACHE_TTL = {
+  index: 24 * 60 * 60 * 1000,
+  bookIndex: 24 * 60 * 60 * 1000,
+  text: 60 * 60 * 1000,
+}
+
+// Least recently used entries are evicted beyond `maxEntries`, and expired
+// ones are dropped whenever the cache is read or written, so a long-running
+// server process keeps a bounded cache.
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry<unknown>>()
+
+  constructor(private maxEntries = 1000) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) return undefined
+    // Map keeps insertion order: re-inserting marks the entry most recently used
+    this.entries.set(key, entry)
+    return entry as CacheEntry<T>
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    const now = Date.now()
+    for (const [cached, { expiresAt }] of Array.from(this.entries)) {
+      if (expiresAt <= now) this.entries.delete(cached)
+    }
+    for (const oldest of Array.from(this.entries.keys())) {
+      if (this.entries.size <= this.maxEntries) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (!prefix) {
+      this.entries.clear()
+      return
+    }
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) this.entries.delete(key)
+    }
+  }
+}
+
+const IDB_NAME = "sefaria-cache"
+const IDB_STORE = "entries"
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Browser backend. Any IndexedDB failure (private mode, quota, blocked upgrade)
+// degrades to a miss rather than an error so callers simply refetch.
+export class IndexedDBCacheBackend implements CacheBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_NAME, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IDB_STORE)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.dbPromise
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open()
+    return db.transaction(IDB_STORE, mode).objectStore(IDB_STORE)
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const store = await this.store("readonly")
+      return (await promisifyRequest(store.get(key))) as CacheEntry<T> | undefined
+    } catch (error) {
+      console.warn("[Cache] IndexedDB read failed:", error)
+      return undefined
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    try {
+      const store = await this.store("readwrite")
+      await promisifyRequest(store.put(entry, key))
+    } catch (error) {
+      console.warn("[Cache] IndexedDB write failed:", error)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      const store = await this.store("readwrite")
+      await promisifyRequest(store.delete(key))
+    } catch (error) {
+      console.warn("[Cache] IndexedDB delete failed:", error)
+    }
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    try {
+      const store = await this.store("readwrite")
+      if (!prefix) {
+        await promisifyRequest(store.clear())
+        return
+      }
+      const keys = await promisifyRequest(store.getAllKeys())
+      await Promise.all(
+        keys
+          .filter(key => String(key).startsWith(prefix))
+          .map(key => promisifyRequest(store.delete(key)))
+      )
+    } catch (error) {
+      console.warn("[Cache] IndexedDB clear failed:", error)
+    }
+  }
+}
+
+export function createDefaultCacheBackend(): CacheBackend {
+  if (typeof window !== "undefined" && typeof indexedDB !== "undefined") {
+    return new IndexedDBCacheBackend()
+  }
+  return new MemoryCacheBackend()
+}
+
+class RequestCache {
+  private inFlight = new Map<string, Promise<unknown>>()
+
+  constructor(private backend: CacheBackend) {}
+
+  // Return the cached value for `key`, or run `loader` once (however many
+  // callers are waiting) and cache its result for `ttl` milliseconds.
+  async fetch<T>(key: string, loader: () => Promise<T>, ttl: number): Promise<T> {
+    const pending = this.inFlight.get(key)
+    if (pending) return pending as Promise<T>
+
+    const request = (async () => {
+      const cached = await this.backend.get<T>(key)
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.value
+      }
+      const value = await loader()
+      await this.backend.set(key, { value, expiresAt: Date.now() + ttl })
+      return value
+    })()
+
+    this.inFlight.set(key, request)
+    try {
+      return await request
+    } finally {
+      this.inFlight.delete(key)
+    }
+  }
+
+  async invalidate(key: string): Promise<void> {
+    await this.backend.delete(key)
+  }
+
+  async invalidatePrefix(prefix: string): Promise<void> {
+    await this.backend.clear(prefix)
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.clear()
+  }
+
+  setBackend(backend: CacheBackend) {
+    this.backend = backend
+  }
+}
+
+// Shared instance for the whole app
+export const sefariaCache = new RequestCache(createDefaultCacheBackend())
+
+export { RequestCache }
@@ -0,0 +1,76 @@
+// Commentaries on a verse, grouped by commentator, and the reader's pinned
+// (favorite) commentators.
+
+import { sefaria, type SefariaCommentary } from "./sefaria-api"
+
+export type CommentaryComment = {
+  ref: string
+  heRef?: string
+  en: string // HTML; empty when the comment has no English
+  he: string
+}
+
+export type CommentatorGroup = {
+  commentator: string
+  heCommentator?: string
+  comments: CommentaryComment[]
+}
+
+// A comment's text, which may be split into (nested) segments, as one HTML string
+function joinSegments(text: unknown): string {
+  if (Array.isArray(text)) return text.map(joinSegments).filter(Boolean).join("<br>")
+  return typeof text === "string" ? text : ""
+}
+
+function commentatorOf(link: SefariaCommentary): string {
+  return link.collectiveTitle?.en || link.commentator || link.index_title || link.sourceRef.replace(/\s[\d:ab.-]+$/, "")
+}
+
+// Comments on `ref` grouped by commentator, in the order Sefaria lists them
+export async function fetchCommentary(ref: string): Promise<CommentatorGroup[]> {
+  const data = await sefaria.getTextWithCommentary(ref)
+  const groups = new Map<string, CommentatorGroup>()
+  for (const link of data.commentary || []) {
+    if (link.category !== "Commentary") continue
+    const comment = { ref: link.sourceRef || link.ref, heRef: link.sourceHeRef, en: joinSegments(link.text), he: joinSegments(link.he) }
+    if (!comment.en && !comment.he) continue
+
+    const commentator = commentatorOf(link)
+    let group = groups.get(commentator)
+    if (!group) {
+      group = { commentator, heCommentator: link.collectiveTitle?.he || link.heCommentator, comments: [] }
+      groups.set(commentator, group)
+    }
+    // The same comment can be linked more than once
+    if (!group.comments.some(existing => existing.ref === comment.ref)) group.comments.push(comment)
+  }
+  return Array.from(groups.values())
+}
+
+// Groups with `base` first, then pinned commentators, then the rest
+export function orderCommentators(groups: CommentatorGroup[], pinned: string[], base?: string): CommentatorGroup[] {
+  const rank = (group: CommentatorGroup) => (group.commentator === base ? 0 : pinned.includes(group.commentator) ? 1 : 2)
+  return groups
+    .map((group, index) => ({ group, index }))
+    .sort((a, b) => rank(a.group) - rank(b.group) || a.index - b.index)
+    .map(({ group }) => group)
+}
+
+const PINNED_KEY = "sefaria-pinned-commentators"
+
+export function readPinnedCommentators(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PINNED_KEY) || "[]")
+    return Array.isArray(stored) ? stored.filter((name): name is string => typeof name === "string") : []
+  } catch {
+    return []
+  }
+}
+
+export function writePinnedCommentators(pinned: string[]) {
+  try {
+    localStorage.setItem(PINNED_KEY, JSON.stringify(pinned))
+  } catch (error) {
+    console.warn("Failed to save pinned commentators:", error)
+  }
+}
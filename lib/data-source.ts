@@ -0,0 +1,71 @@
+// Switchable source for Sefaria data.
+//
+// The browser only talks to our own /api routes; those route handlers fetch
+// from the live Sefaria API by default. Setting
+// NEXT_PUBLIC_SEFARIA_DATA_SOURCE=fixtures makes them read the JSON files under
+// public/fixtures/sefaria instead, so the app can be developed, demoed and
+// tested with no network. The fixture tree mirrors the API paths:
+//
+//   index                      -> fixtures/sefaria/index.json
+//   v2/index/Song of Songs     -> fixtures/sefaria/v2/index/Song of Songs.json
+//   v3/texts/Song of Songs 1   -> fixtures/sefaria/v3/texts/Song_of_Songs.1.json
+//   texts/Berakhot.2a          -> fixtures/sefaria/texts/Berakhot.2a.json
+//   calendars                  -> fixtures/sefaria/calendars.json
+//   links/Genesis.1            -> fixtures/sefaria/links/Genesis.1.json
+//   related/Genesis.1          -> fixtures/sefaria/related/Genesis.1.json
+//
+// Refs are filed under their URL form and index records under the book's
+// title, however the request spells them, so scripts/download-fixtures.mjs
+// and the reader agree on file names. Query strings are dropped in fixture
+// mode: each file holds one canned response.
+
+import { formatRef, normalizeBookTitle, parseRef } from "./ref"
+
+export type SefariaDataSource = "live" | "fixtures"
+
+export const SEFARIA_API_BASE = "https://www.sefaria.org/api"
+export const FIXTURE_DIR = ["public", "fixtures", "sefaria"]
+
+export function getSefariaDataSource(): SefariaDataSource {
+  return process.env.NEXT_PUBLIC_SEFARIA_DATA_SOURCE === "fixtures" ? "fixtures" : "live"
+}
+
+// Live URL for an endpoint such as "v3/texts/Genesis.1?version=hebrew".
+// Path segments must already be URI-encoded.
+export function sefariaApiUrl(endpoint: string): string {
+  return `${SEFARIA_API_BASE}/${endpoint.replace(/^\/+/, "")}`
+}
+
+// A decoded segment that could leave the directory it names a file in
+const UNSAFE_SEGMENT = /^\.*$|\.\.|[/\\\0]/
+
+// Endpoints whose last segment is a ref, and those whose last segment is a title
+const REF_ENDPOINTS = new Set(["v3/texts", "texts", "links", "related"])
+const TITLE_ENDPOINTS = new Set(["v2/index"])
+
+// Name a fixture is filed under: "Song of Songs 1" -> "Song_of_Songs.1"
+function fixtureName(directory: string, name: string): string {
+  if (REF_ENDPOINTS.has(directory)) {
+    const ref = parseRef(name)
+    return ref ? formatRef(ref, "url") : name
+  }
+  if (TITLE_ENDPOINTS.has(directory)) return normalizeBookTitle(name)
+  return name
+}
+
+// Path segments of the fixture file for an endpoint, relative to FIXTURE_DIR;
+// null when a segment does not decode to a plain file or directory name
+export function fixtureSegments(endpoint: string): string[] | null {
+  const path = endpoint.replace(/^\/+/, "").split("?")[0]
+  let segments: string[]
+  try {
+    segments = path.split("/").map(segment => decodeURIComponent(segment))
+  } catch {
+    return null
+  }
+  const last = segments.length - 1
+  segments[last] = fixtureName(segments.slice(0, last).join("/"), segments[last])
+  if (segments.some(segment => UNSAFE_SEGMENT.test(segment))) return null
+  segments[last] += ".json"
+  return segments
+}
@@ -0,0 +1,238 @@
+// Export of connection graphs: the rendered SVG as SVG or PNG, and the graph
+// data as GraphML, GEXF (both load in Gephi and Cytoscape) or JSON. Node
+// metadata (author, genre, timePeriod) is kept in every data format.
+
+import { downloadBlob, escapeXml } from "./download"
+import { linkEndpointId, type GraphData, type GraphLink, type GraphNode } from "./graph"
+
+export type GraphExportFormat = "svg" | "png" | "graphml" | "gexf" | "json"
+
+export const GRAPH_EXPORT_FORMATS: { format: GraphExportFormat; label: string }[] = [
+  { format: "png", label: "PNG image" },
+  { format: "svg", label: "SVG image" },
+  { format: "graphml", label: "GraphML" },
+  { format: "gexf", label: "GEXF (Gephi)" },
+  { format: "json", label: "JSON" },
+]
+
+// Context written alongside the data, e.g. the ref the graph was built for
+export type GraphExportMeta = {
+  title?: string
+  filters?: Record<string, unknown>
+}
+
+const NODE_ATTRIBUTES = ["title", "type", "category", "author", "genre", "timePeriod", "snippet", "url"] as const
+const LINK_ATTRIBUTES = ["type", "relationType", "strength", "weight"] as const
+
+// timePeriod is sometimes a [start, end] pair of years
+function formatValue(value: unknown): string | undefined {
+  if (value == null || value === "") return undefined
+  if (Array.isArray(value)) return value.join(" – ")
+  return String(value)
+}
+
+function nodeAttributes(node: GraphNode): Record<string, string | undefined> {
+  return {
+    title: node.title,
+    type: node.type,
+    category: node.category,
+    author: formatValue(node.metadata?.author),
+    genre: formatValue(node.metadata?.genre),
+    timePeriod: formatValue(node.metadata?.timePeriod),
+    snippet: formatValue(node.snippet),
+    url: node.url,
+  }
+}
+
+function linkAttributes(link: GraphLink): Record<string, string | undefined> {
+  return {
+    type: link.type,
+    relationType: link.relationType,
+    strength: formatValue(link.strength),
+    weight: formatValue(link.weight),
+  }
+}
+
+export function graphToJSON(data: GraphData, meta: GraphExportMeta = {}): string {
+  return JSON.stringify(
+    {
+      ...meta,
+      exportedAt: new Date().toISOString(),
+      nodes: data.nodes.map(node => ({
+        id: node.id,
+        title: node.title,
+        type: node.type,
+        category: node.category,
+        snippet: node.snippet,
+        url: node.url,
+        metadata: node.metadata,
+      })),
+      links: data.links.map(link => ({
+        id: link.id,
+        source: linkEndpointId(link.source),
+        target: linkEndpointId(link.target),
+        type: link.type,
+        relationType: link.relationType,
+        strength: link.strength,
+        weight: link.weight,
+      })),
+    },
+    null,
+    2
+  )
+}
+
+export function graphToGraphML(data: GraphData, meta: GraphExportMeta = {}): string {
+  const dataElements = (attributes: Record<string, string | undefined>) =>
+    Object.entries(attributes)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `      <data key="${key}">${escapeXml(value as string)}</data>`)
+      .join("\n")
+
+  const keys = [
+    ...NODE_ATTRIBUTES.map(name => `  <key id="${name}" for="node" attr.name="${name}" attr.type="string"/>`),
+    // Edge keys share names with node keys, so they get an "e_" id prefix
+    ...LINK_ATTRIBUTES.map(name => {
+      const type = name === "strength" || name === "weight" ? "double" : "string"
+      return `  <key id="e_${name}" for="edge" attr.name="${name}" attr.type="${type}"/>`
+    }),
+  ]
+
+  const nodes = data.nodes.map(node =>
+    `    <node id="${escapeXml(node.id)}">\n${dataElements(nodeAttributes(node))}\n    </node>`
+  )
+  const edges = data.links.map(link => {
+    const attributes = Object.fromEntries(
+      Object.entries(linkAttributes(link)).map(([key, value]) => [`e_${key}`, value])
+    )
+    return `    <edge id="${escapeXml(link.id)}" source="${escapeXml(linkEndpointId(link.source))}" target="${escapeXml(linkEndpointId(link.target))}">\n${dataElements(attributes)}\n    </edge>`
+  })
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    ...(meta.title ? [`  <desc>${escapeXml(meta.title)}</desc>`] : []),
+    ...keys,
+    `  <graph id="G" edgedefault="directed">`,
+    ...nodes,
+    ...edges,
+    `  </graph>`,
+    `</graphml>`,
+    ``,
+  ].join("\n")
+}
+
+export function graphToGEXF(data: GraphData, meta: GraphExportMeta = {}): string {
+  const attValues = (attributes: Record<string, string | undefined>, skip: string[]) => {
+    const values = Object.entries(attributes)
+      .filter(([key, value]) => value !== undefined && !skip.includes(key))
+      .map(([key, value]) => `          <attvalue for="${key}" value="${escapeXml(value as string)}"/>`)
+    return values.length ? `\n        <attvalues>\n${values.join("\n")}\n        </attvalues>\n      ` : ""
+  }
+
+  const nodeAttributeDefs = NODE_ATTRIBUTES.filter(name => name !== "title")
+    .map(name => `      <attribute id="${name}" title="${name}" type="string"/>`)
+  const edgeAttributeDefs = LINK_ATTRIBUTES.filter(name => name !== "strength")
+    .map(name => `      <attribute id="${name}" title="${name}" type="${name === "weight" ? "double" : "string"}"/>`)
+
+  const nodes = data.nodes.map(node =>
+    `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.title)}">${attValues(nodeAttributes(node), ["title"])}</node>`
+  )
+  // GEXF carries strength as the edge weight
+  const edges = data.links.map(link =>
+    `      <edge id="${escapeXml(link.id)}" source="${escapeXml(linkEndpointId(link.source))}" target="${escapeXml(linkEndpointId(link.target))}" weight="${link.strength}" label="${escapeXml(link.type)}">${attValues(linkAttributes(link), ["strength"])}</edge>`
+  )
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    ...(meta.title ? [`    <description>${escapeXml(meta.title)}</description>`] : []),
+    `  </meta>`,
+    `  <graph defaultedgetype="directed" mode="static">`,
+    `    <attributes class="node">`,
+    ...nodeAttributeDefs,
+    `    </attributes>`,
+    `    <attributes class="edge">`,
+    ...edgeAttributeDefs,
+    `    </attributes>`,
+    `    <nodes>`,
+    ...nodes,
+    `    </nodes>`,
+    `    <edges>`,
+    ...edges,
+    `    </edges>`,
+    `  </graph>`,
+    `</gexf>`,
+    ``,
+  ].join("\n")
+}
+
+// Standalone SVG markup for a rendered graph
+export function svgToString(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  const { width, height } = svg.getBoundingClientRect()
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg")
+  clone.setAttribute("xmlns:xlink", "http://www.w3.org/1999/xlink")
+  clone.setAttribute("width", String(Math.round(width)))
+  clone.setAttribute("height", String(Math.round(height)))
+  if (!clone.getAttribute("viewBox")) {
+    clone.setAttribute("viewBox", `0 0 ${Math.round(width)} ${Math.round(height)}`)
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`
+}
+
+// Rasterize a rendered graph on a white background at `scale` times its size
+export function svgToPngBlob(svg: SVGSVGElement, scale = 2): Promise<Blob> {
+  const { width, height } = svg.getBoundingClientRect()
+  const url = URL.createObjectURL(new Blob([svgToString(svg)], { type: "image/svg+xml;charset=utf-8" }))
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+      const context = canvas.getContext("2d")
+      if (!context) {
+        URL.revokeObjectURL(url)
+        reject(new Error("Canvas is not available"))
+        return
+      }
+      context.fillStyle = "#ffffff"
+      context.fillRect(0, 0, canvas.width, canvas.height)
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      URL.revokeObjectURL(url)
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png")
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Could not render the graph image"))
+    }
+    image.src = url
+  })
+}
+
+export async function exportGraph(
+  format: GraphExportFormat,
+  { data, svg, fileName, meta }: { data: GraphData; svg?: SVGSVGElement | null; fileName: string; meta?: GraphExportMeta }
+): Promise<void> {
+  switch (format) {
+    case "svg":
+      if (!svg) throw new Error("The graph has not been rendered")
+      downloadBlob(new Blob([svgToString(svg)], { type: "image/svg+xml" }), `${fileName}.svg`)
+      return
+    case "png":
+      if (!svg) throw new Error("The graph has not been rendered")
+      downloadBlob(await svgToPngBlob(svg), `${fileName}.png`)
+      return
+    case "graphml":
+      downloadBlob(new Blob([graphToGraphML(data, meta)], { type: "application/xml" }), `${fileName}.graphml`)
+      return
+    case "gexf":
+      downloadBlob(new Blob([graphToGEXF(data, meta)], { type: "application/xml" }), `${fileName}.gexf`)
+      return
+    case "json":
+      downloadBlob(new Blob([graphToJSON(data, meta)], { type: "application/json" }), `${fileName}.json`)
+      return
+  }
+}
@@ -0,0 +1,85 @@
+// Connections-graph state as URL query parameters, so a graph exploration can
+// be shared as a link and stepped through with the back button.
+//
+//   ?graph=1&depth=2&rel=quotation&genre=Talmud&author=Rashi
+//    &periods=Biblical&years=200~1200&zoom=120,-40,1.5&node=Rashi%20on%20Genesis%201:1:1
+//
+// Only values that differ from the defaults are written.
+
+import { MAX_GRAPH_DEPTH, RELATIONSHIP_STYLES, type RelationshipType } from "./graph"
+
+export type GraphZoom = { x: number; y: number; k: number }
+
+export type GraphUrlState = {
+  depth: number
+  genre: string[]
+  author: string[]
+  relationship: RelationshipType[]
+  timePeriods?: string[]
+  yearRange?: [number, number]
+  zoom?: GraphZoom
+  node?: string
+}
+
+const GRAPH_PARAMS = ["graph", "depth", "genre", "author", "rel", "periods", "years", "zoom", "node"]
+
+function appendAll(params: URLSearchParams, key: string, values: string[]) {
+  for (const value of values) params.append(key, value)
+}
+
+// Search string for `search` with the graph parameters replaced by `state`,
+// or removed when `state` is null (modal closed)
+export function writeGraphState(search: string, state: GraphUrlState | null): string {
+  const params = new URLSearchParams(search)
+  for (const key of GRAPH_PARAMS) params.delete(key)
+
+  if (state) {
+    params.set("graph", "1")
+    if (state.depth !== 1) params.set("depth", String(state.depth))
+    appendAll(params, "rel", state.relationship)
+    appendAll(params, "genre", state.genre)
+    appendAll(params, "author", state.author)
+    if (state.timePeriods) appendAll(params, "periods", state.timePeriods)
+    if (state.yearRange) params.set("years", `${state.yearRange[0]}~${state.yearRange[1]}`)
+    if (state.zoom) {
+      const { x, y, k } = state.zoom
+      params.set("zoom", `${Math.round(x)},${Math.round(y)},${Number(k.toFixed(3))}`)
+    }
+    if (state.node) params.set("node", state.node)
+  }
+
+  const query = params.toString()
+  return query ? `?${query}` : ""
+}
+
+// Graph state encoded in `search`, or null when the graph is not open
+export function readGraphState(search: string): GraphUrlState | null {
+  const params = new URLSearchParams(search)
+  if (params.get("graph") !== "1") return null
+
+  const depth = Number(params.get("depth") || 1)
+  const state: GraphUrlState = {
+    depth: Number.isInteger(depth) && depth >= 1 && depth <= MAX_GRAPH_DEPTH ? depth : 1,
+    genre: params.getAll("genre"),
+    author: params.getAll("author"),
+    relationship: params.getAll("rel").filter((rel): rel is RelationshipType => rel in RELATIONSHIP_STYLES),
+  }
+
+  if (params.has("periods")) state.timePeriods = params.getAll("periods")
+
+  // Years are separated by "~" so negative (BCE) years survive
+  const years = params.get("years")?.split("~").map(Number)
+  if (years && years.length === 2 && years.every(Number.isFinite)) {
+    state.yearRange = [Math.min(years[0], years[1]), Math.max(years[0], years[1])]
+  }
+
+  const zoom = params.get("zoom")?.split(",").map(Number)
+  if (zoom && zoom.length === 3 && zoom.every(Number.isFinite) && zoom[2] > 0) {
+    state.zoom = { x: zoom[0], y: zoom[1], k: zoom[2] }
+  }
+
+  const node = params.get("node")
+  if (node) state.node = node
+
+  return state
+}
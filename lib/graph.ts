@@ -0,0 +1,181 @@
+// Graph types shared by the browser and the server, plus the client for the
+// /api/graph routes. The Neo4j driver itself lives server-side in lib/neo4j.ts.
+
+import type { ApiErrorBody } from "./api-error"
+
+// Display bucket for a node, derived from its category in the database.
+// "current" marks the selected verse; "other" is anything we do not recognize.
+export type NodeType =
+  | "current" | "tanakh" | "halakhic" | "aggadic" | "lexical" | "responsa"
+  | "commentary" | "mishnah" | "talmud" | "kabbalah" | "other"
+
+export const NODE_TYPE_STYLES: Record<NodeType, { label: string; color: string }> = {
+  current: { label: "Selected", color: "#3b82f6" },
+  tanakh: { label: "Tanakh", color: "#0ea5e9" },
+  halakhic: { label: "Halakhah", color: "#2563eb" },
+  aggadic: { label: "Midrash & Aggadah", color: "#dc2626" },
+  lexical: { label: "Lexical", color: "#6b7280" },
+  responsa: { label: "Responsa", color: "#10b981" },
+  commentary: { label: "Commentary", color: "#8b5cf6" },
+  mishnah: { label: "Mishnah", color: "#f59e0b" },
+  talmud: { label: "Talmud", color: "#1e40af" },
+  kabbalah: { label: "Kabbalah", color: "#be185d" },
+  other: { label: "Other", color: "#94a3b8" },
+}
+
+export function normalizeNodeType(raw?: string | null): NodeType {
+  const value = (raw || "").toLowerCase()
+  if (value in NODE_TYPE_STYLES) return value as NodeType
+  if (/tanakh|torah|prophets|writings/.test(value)) return "tanakh"
+  if (/mishnah/.test(value)) return "mishnah"
+  if (/talmud|bavli|yerushalmi/.test(value)) return "talmud"
+  if (/responsa/.test(value)) return "responsa"
+  if (/halakh/.test(value)) return "halakhic"
+  if (/kabbal|zohar/.test(value)) return "kabbalah"
+  if (/commentary/.test(value)) return "commentary"
+  if (/midrash|aggad/.test(value)) return "aggadic"
+  if (/lexic|dictionar/.test(value)) return "lexical"
+  return "other"
+}
+
+// Kinds of intertextual relationship. Neo4j relationship types are mapped onto
+// these by normalizeRelationshipType; the raw type is kept on the link too.
+export type RelationshipType =
+  | "quotation" | "commentary" | "allusion" | "halakhic_derivation"
+  | "parallel" | "citation" | "related"
+
+export const RELATIONSHIP_STYLES: Record<RelationshipType, { label: string; color: string; dash?: string }> = {
+  quotation: { label: "Quotation", color: "#2563eb" },
+  commentary: { label: "Commentary on", color: "#8b5cf6" },
+  allusion: { label: "Allusion", color: "#f59e0b", dash: "6,4" },
+  halakhic_derivation: { label: "Halakhic derivation", color: "#059669" },
+  parallel: { label: "Parallel", color: "#dc2626", dash: "2,3" },
+  citation: { label: "Citation", color: "#0891b2" },
+  related: { label: "Related", color: "#64748b", dash: "4,4" },
+}
+
+export function normalizeRelationshipType(raw?: string | null): RelationshipType {
+  const value = (raw || "").toUpperCase()
+  if (value.toLowerCase() in RELATIONSHIP_STYLES) return value.toLowerCase() as RelationshipType
+  if (/QUOT/.test(value)) return "quotation"
+  if (/COMMENT/.test(value)) return "commentary"
+  if (/ALLU/.test(value)) return "allusion"
+  if (/HALAKH|DERIV|RULING|PSAK/.test(value)) return "halakhic_derivation"
+  if (/PARALLEL/.test(value)) return "parallel"
+  if (/CIT|REFER/.test(value)) return "citation"
+  return "related"
+}
+
+// Relationship types present in a set of links, in legend order
+export function relationshipTypesIn(links: { type: RelationshipType }[]): RelationshipType[] {
+  const present = new Set(links.map(link => link.type))
+  return (Object.keys(RELATIONSHIP_STYLES) as RelationshipType[]).filter(type => present.has(type))
+}
+
+export type GraphNode = {
+  id: string // Uniquely identifies each GraphNode. Example: Node-1, Node-2, Node-3, ...
+  title: string
+  type: NodeType
+  category?: string // Category as stored in the database, e.g. "Midrash Rabbah"
+
+  snippet: string
+  content?: string // Full text content
+  url?: string
+
+  color?: string
+
+  metadata: {
+    genre?: string
+    author?: string
+    timePeriod?: string
+  }
+
+  simulation?: {
+    x?: number
+    y?: number
+    vx?: number
+    vy?: number
+    fx?: number | null
+    fy?: number | null
+  }
+}
+
+export type GraphLink = {
+  id: string // Uniquely identifies each GraphLink; the relationship's element id in the database
+  source: string | GraphNode // ID of Source GraphNode or node object after D3 processes
+  target: string | GraphNode // ID of Target GraphNode or node object after D3 processes
+  type: RelationshipType
+  relationType?: string // Relationship type as stored in the database, e.g. "COMMENTARY_ON"
+
+  strength: number // 0.1–1, from the relationship's strength/weight/score property
+  weight?: number
+
+  simulation?: {
+    index?: number
+    distance?: number
+  }
+}
+
+export type GraphData = {
+  nodes: GraphNode[]
+  links: GraphLink[]
+}
+
+// Hop limit for neighborhood queries
+export const MAX_GRAPH_DEPTH = 3
+
+// Id of a link endpoint, whether D3 has replaced it with the node object or not
+export function linkEndpointId(end: string | GraphNode): string {
+  return typeof end === "string" ? end : end.id
+}
+
+// Combine several graphs (the neighborhoods of each verse in a range, or an
+// expansion merged into the graph on screen) into one. Nodes are de-duplicated
+// by id and the first copy wins, so nodes already laid out keep their position;
+// a node that is "current" in any input stays "current". Links are
+// de-duplicated by id and their endpoints reset to ids for the next layout.
+export function mergeGraphData(graphs: GraphData[]): GraphData {
+  const nodeById = new Map<string, GraphNode>()
+  const linkById = new Map<string, GraphLink>()
+
+  for (const graph of graphs) {
+    for (const node of graph.nodes) {
+      const existing = nodeById.get(node.id)
+      if (!existing) {
+        nodeById.set(node.id, node)
+      } else if (node.type === "current" && existing.type !== "current") {
+        existing.type = "current"
+      }
+    }
+    for (const link of graph.links) {
+      if (linkById.has(link.id)) continue
+      linkById.set(link.id, { ...link, source: linkEndpointId(link.source), target: linkEndpointId(link.target) })
+    }
+  }
+
+  return { nodes: Array.from(nodeById.values()), links: Array.from(linkById.values()) }
+}
+
+async function fetchGraph(query: string, params: Record<string, string>): Promise<GraphData> {
+  const res = await fetch(`/api/graph/${query}?${new URLSearchParams(params)}`)
+  if (!res.ok) {
+    const body: ApiErrorBody | null = await res.json().catch(() => null)
+    throw new Error(body?.error.message || `Graph request failed: ${res.status}`)
+  }
+  return res.json()
+}
+
+// Neighborhood of a verse up to `depth` hops, centered on a synthetic "current" node
+export async function fetchConnectionsForVerse(verseId: string, depth = 1): Promise<GraphData> {
+  return fetchGraph("connections", { id: verseId, depth: String(depth) })
+}
+
+// Neighborhood of any node, for expanding it in place
+export async function fetchNeighbors(nodeId: string, depth = 1): Promise<GraphData> {
+  return fetchGraph("neighbors", { id: nodeId, depth: String(depth) })
+}
+
+// Shortest path between two nodes; empty when they are not connected
+export async function fetchPathBetween(fromId: string, toId: string): Promise<GraphData> {
+  return fetchGraph("path", { from: fromId, to: toId })
+}
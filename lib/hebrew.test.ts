@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest"
+import {
+  containsHebrew,
+  foldKtiv,
+  formatHebrewNumeral,
+  formatHebrewSection,
+  gematria,
+  isAbbreviation,
+  isKtivVariant,
+  normalizeFinalLetters,
+  normalizeHebrew,
+  parseHebrewNumeral,
+  spellingKey,
+  stripMarks,
+  stripNikkud,
+  stripTaamim,
+} from "./hebrew"
+
+describe("stripTaamim / stripNikkud", () => {
+  const pointed = "בְּרֵאשִׁ֖ית"
+
+  it("removes only cantillation", () => {
+    expect(stripTaamim(pointed)).toBe("בְּרֵאשִׁית")
+  })
+
+  it("removes only vowel points and dots", () => {
+    expect(stripNikkud(pointed)).toBe("בראש֖ית")
+  })
+
+  it("removes both together", () => {
+    expect(stripMarks(pointed)).toBe("בראשית")
+  })
+
+  it("keeps maqaf and sof pasuq", () => {
+    expect(stripMarks("כָּל־הָאָֽרֶץ׃")).toBe("כל־הארץ׃")
+  })
+})
+
+describe("normalizeFinalLetters", () => {
+  it("writes final letters in their medial form", () => {
+    expect(normalizeFinalLetters("ארץ")).toBe("ארצ")
+    expect(normalizeFinalLetters("ךםןףץ")).toBe("כמנפצ")
+  })
+
+  it("leaves other letters alone", () => {
+    expect(normalizeFinalLetters("שלום עולם")).toBe("שלומ עולמ")
+    expect(normalizeFinalLetters("Genesis")).toBe("Genesis")
+  })
+})
+
+describe("normalizeHebrew", () => {
+  it("folds abbreviation marks, nikkud and final letters", () => {
+    expect(normalizeHebrew("רש״י")).toBe(normalizeHebrew("רשי"))
+    expect(normalizeHebrew("שָׁלוֹם")).toBe("שלומ")
+  })
+
+  it("detects Hebrew", () => {
+    expect(containsHebrew("Genesis 1")).toBe(false)
+    expect(containsHebrew("בראשית 1")).toBe(true)
+  })
+})
+
+describe("foldKtiv", () => {
+  it("folds doubled vav and yod", () => {
+    expect(spellingKey("מצווה")).toBe(spellingKey("מצוה"))
+    expect(spellingKey("עניין")).toBe(spellingKey("ענין"))
+    expect(foldKtiv("ויאמר")).toBe("ויאמר")
+  })
+
+  it("keeps single vav and yod, which may be different words", () => {
+    expect(spellingKey("ביתו")).not.toBe(spellingKey("בתו"))
+    expect(spellingKey("איש")).not.toBe(spellingKey("אש"))
+    expect(spellingKey("שלום")).not.toBe(spellingKey("שלם"))
+  })
+})
+
+describe("isKtivVariant", () => {
+  it("accepts matres where the pointing has their vowel", () => {
+    expect(isKtivVariant("שלום", "שָׁלֹם")).toBe(true)
+    expect(isKtivVariant("דָּוִד", "דויד")).toBe(true)
+    expect(isKtivVariant("קוּם", "קֻם")).toBe(true)
+    expect(isKtivVariant("ביתו", "בִּתּוֹ")).toBe(true)
+  })
+
+  it("rejects vav and yod where the pointing has another vowel", () => {
+    expect(isKtivVariant("בַּיִת", "בַּת")).toBe(false)
+    expect(isKtivVariant("איש", "אֵשׁ")).toBe(false)
+    expect(isKtivVariant("ביתו", "בְּתוֹ")).toBe(false)
+  })
+
+  it("rejects unpointed spellings and other letters", () => {
+    expect(isKtivVariant("ביתו", "בתו")).toBe(false)
+    expect(isKtivVariant("איש", "אש")).toBe(false)
+    expect(isKtivVariant("שלום", "שלום")).toBe(false)
+    expect(isKtivVariant("שלוח", "שָׁלֹם")).toBe(false)
+  })
+})
+
+describe("gematria", () => {
+  it("sums letter values", () => {
+    expect(gematria("אבג")).toBe(6)
+    expect(gematria("שלום")).toBe(376)
+    expect(gematria("תורה")).toBe(611)
+  })
+
+  it("counts final letters at their ordinary value and ignores marks", () => {
+    expect(gematria("ך")).toBe(20)
+    expect(gematria("שָׁלוֹם")).toBe(376)
+    expect(gematria("abc 123")).toBe(0)
+  })
+})
+
+describe("isAbbreviation", () => {
+  it("recognizes gershayim and geresh", () => {
+    expect(isAbbreviation("רש״י")).toBe(true)
+    expect(isAbbreviation('חז"ל')).toBe(true)
+    expect(isAbbreviation("ר׳")).toBe(true)
+  })
+
+  it("rejects plain words", () => {
+    expect(isAbbreviation("רשי")).toBe(false)
+    expect(isAbbreviation("בראשית")).toBe(false)
+    expect(isAbbreviation("Rashi")).toBe(false)
+  })
+})
+
+describe("parseHebrewNumeral", () => {
+  it("decodes numerals with and without marks", () => {
+    expect(parseHebrewNumeral("א׳")).toBe(1)
+    expect(parseHebrewNumeral("ט״ו")).toBe(15)
+    expect(parseHebrewNumeral("ט״ז")).toBe(16)
+    expect(parseHebrewNumeral("קכג")).toBe(123)
+    expect(parseHebrewNumeral("תתקצ״ט")).toBe(999)
+  })
+
+  it("returns null for ordinary words", () => {
+    expect(parseHebrewNumeral("בראשית")).toBeNull()
+    expect(parseHebrewNumeral("אב")).toBeNull()
+    expect(parseHebrewNumeral("")).toBeNull()
+  })
+})
+
+describe("formatHebrewNumeral", () => {
+  it("adds geresh or gershayim", () => {
+    expect(formatHebrewNumeral(1)).toBe("א׳")
+    expect(formatHebrewNumeral(30)).toBe("ל׳")
+    expect(formatHebrewNumeral(123)).toBe("קכ״ג")
+  })
+
+  it("writes 15 and 16 as ט״ו and ט״ז", () => {
+    expect(formatHebrewNumeral(15)).toBe("ט״ו")
+    expect(formatHebrewNumeral(16)).toBe("ט״ז")
+    expect(formatHebrewNumeral(115)).toBe("קט״ו")
+  })
+
+  it("writes hundreds above 400 with tav", () => {
+    expect(formatHebrewNumeral(500)).toBe("ת״ק")
+    expect(formatHebrewNumeral(999)).toBe("תתקצ״ט")
+  })
+
+  it("writes thousands as a letter with a geresh", () => {
+    expect(formatHebrewNumeral(5784)).toBe("ה׳תשפ״ד")
+    expect(formatHebrewNumeral(5000)).toBe("ה׳")
+    expect(formatHebrewNumeral(1001)).toBe("א׳א׳")
+  })
+
+  it("leaves values outside the numeral range in digits", () => {
+    expect(formatHebrewNumeral(0)).toBe("0")
+    expect(formatHebrewNumeral(-3)).toBe("-3")
+    expect(formatHebrewNumeral(2.5)).toBe("2.5")
+    expect(formatHebrewNumeral(10000)).toBe("10000")
+  })
+
+  it("round-trips section numbers", () => {
+    for (let n = 1; n < 1000; n++) {
+      expect(parseHebrewNumeral(formatHebrewNumeral(n))).toBe(n)
+    }
+  })
+})
+
+describe("formatHebrewSection", () => {
+  it("labels chapters and dapim", () => {
+    expect(formatHebrewSection(3)).toBe("ג׳")
+    expect(formatHebrewSection("2a")).toBe("ב.")
+    expect(formatHebrewSection("15b")).toBe("טו:")
+    expect(formatHebrewSection("intro")).toBe("intro")
+  })
+})
@@ -0,0 +1,191 @@
+// Hebrew text utilities: removing nikkud and ta'amim, folding spelling
+// variants so differently written words compare equal, gematria,
+// abbreviations and Hebrew numerals.
+//
+// Anything that compares, searches or labels Hebrew text should normalize it
+// here, so that the reader, the diff engine and search agree on when two words
+// are the same.
+
+// Hebrew block and the presentation forms (e.g. precomposed shin with dot)
+export const HEBREW_CHARACTERS = "\\u0590-\\u05FF\\uFB1D-\\uFB4F"
+
+const HEBREW = new RegExp(`[${HEBREW_CHARACTERS}]`)
+// Cantillation (U+0591–U+05AF)
+const TAAMIM = /[\u0591-\u05AF]/g
+// Vowel points, dagesh, meteg and the shin/sin dots; the maqaf, paseq, sof
+// pasuq and nun hafukha among them are punctuation and are kept
+const NIKKUD = /[\u05B0-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g
+// Geresh and gershayim, and the quotes typed in their place
+const ABBREVIATION_MARKS = /[\u05F3\u05F4'"\u2019]/g
+const FINAL_LETTERS: Record<string, string> = { "ך": "כ", "ם": "מ", "ן": "נ", "ף": "פ", "ץ": "צ" }
+
+const NUMERAL_VALUES: Record<string, number> = {
+  "א": 1, "ב": 2, "ג": 3, "ד": 4, "ה": 5, "ו": 6, "ז": 7, "ח": 8, "ט": 9,
+  "י": 10, "כ": 20, "ך": 20, "ל": 30, "מ": 40, "ם": 40, "נ": 50, "ן": 50, "ס": 60,
+  "ע": 70, "פ": 80, "ף": 80, "צ": 90, "ץ": 90,
+  "ק": 100, "ר": 200, "ש": 300, "ת": 400,
+}
+
+export function containsHebrew(text: string): boolean {
+  return HEBREW.test(text)
+}
+
+export function stripTaamim(text: string): string {
+  return text.replace(TAAMIM, "")
+}
+
+export function stripNikkud(text: string): string {
+  return text.replace(NIKKUD, "")
+}
+
+// Nikkud and ta'amim removed: "בְּרֵאשִׁ֖ית" -> "בראשית"
+export function stripMarks(text: string): string {
+  return stripNikkud(stripTaamim(text))
+}
+
+// Final letters written in their medial form: "ארץ" -> "ארצ"
+export function normalizeFinalLetters(text: string): string {
+  return text.replace(/[ךםןףץ]/g, letter => FINAL_LETTERS[letter])
+}
+
+// Form under which the same word compares equal however it is pointed,
+// abbreviated or ended: marks and abbreviation marks removed, final letters
+// folded. "רש״י" and "רשי" become the same key.
+export function normalizeHebrew(text: string): string {
+  return normalizeFinalLetters(stripMarks(text).replace(ABBREVIATION_MARKS, ""))
+}
+
+// Doubled vav and yod, which ktiv male writes for a consonantal vav or yod
+// ("מצווה", "עניין"), folded to one letter: "מצווה" and "מצוה" both become
+// "מצוה". Single matres lectionis are left alone, since dropping them would
+// also merge different words (ביתו and בתו, איש and אש); see isKtivVariant.
+// Expects a normalized word.
+export function foldKtiv(word: string): string {
+  return word.replace(/וו/g, "ו").replace(/יי/g, "י")
+}
+
+// Key under which spelling variants of a word collide
+export function spellingKey(word: string): string {
+  return foldKtiv(normalizeHebrew(word))
+}
+
+// Vowels a mater lectionis may stand for: vav for holam and qubbutz, yod for
+// hiriq
+const MATER_VOWELS: Record<string, RegExp> = {
+  "ו": /[\u05B9\u05BA\u05BB]/,
+  "י": /\u05B4/,
+}
+
+// Letters of a word with the nikkud written on each
+function pointedLetters(word: string): Array<{ letter: string; marks: string }> {
+  const letters: Array<{ letter: string; marks: string }> = []
+  for (const char of stripTaamim(word).replace(ABBREVIATION_MARKS, "")) {
+    if (stripNikkud(char) === "") {
+      if (letters.length > 0) letters[letters.length - 1].marks += char
+    } else {
+      letters.push({ letter: normalizeFinalLetters(char), marks: "" })
+    }
+  }
+  return letters
+}
+
+// Whether `full` is `defective` with vav or yod added where the pointing of
+// `defective` has the vowel they stand for: "שלום" and "שָׁלֹם", "דויד" and
+// "דָּוִד". Without nikkud nothing tells a mater from a different word, so
+// unpointed spellings are only variants under spellingKey.
+function isPlene(full: string, defective: string): boolean {
+  const added = pointedLetters(full)
+  const base = pointedLetters(defective)
+  let j = 0
+  let extra = 0
+  for (let i = 0; i < added.length; i++) {
+    if (j < base.length && added[i].letter === base[j].letter) {
+      j++
+      continue
+    }
+    const vowel = MATER_VOWELS[added[i].letter]
+    if (!vowel || j === 0 || !vowel.test(base[j - 1].marks)) return false
+    extra++
+  }
+  return j === base.length && extra > 0
+}
+
+// Whether two spellings of a word differ only by matres lectionis (ktiv male
+// and ktiv haser), in either direction
+export function isKtivVariant(a: string, b: string): boolean {
+  return isPlene(a, b) || isPlene(b, a)
+}
+
+// Sum of the letters' values (mispar hechrechi); other characters count zero
+export function gematria(text: string): number {
+  let total = 0
+  for (const letter of stripMarks(text)) total += NUMERAL_VALUES[letter] || 0
+  return total
+}
+
+// Whether a word is written as an abbreviation (rashei teivot), with
+// gershayim before its last letter ("רש״י", "חז״ל") or a geresh after it
+// ("ר׳"). Hebrew numerals are written the same way; see parseHebrewNumeral.
+export function isAbbreviation(word: string): boolean {
+  const plain = stripMarks(word.trim())
+  return /^[א-ת]+["\u05F4][א-ת]$/.test(plain) || /^[א-ת]+['\u05F3\u2019]$/.test(plain)
+}
+
+// Decode a Hebrew numeral below 1000 such as "א׳", "ט״ו" or "תתקצ״ט"; returns
+// null for ordinary words
+export function parseHebrewNumeral(value: string): number | null {
+  const letters = stripMarks(value).replace(ABBREVIATION_MARKS, "")
+  if (!letters || letters.length > 5) return null
+  let total = 0
+  let previous = Infinity
+  for (const letter of letters) {
+    const v = NUMERAL_VALUES[letter]
+    if (!v || v > previous) return null
+    total += v
+    previous = v
+  }
+  return total
+}
+
+const HUNDREDS = ["", "ק", "ר", "ש"]
+const TENS = ["", "י", "כ", "ל", "מ", "נ", "ס", "ע", "פ", "צ"]
+const ONES = ["", "א", "ב", "ג", "ד", "ה", "ו", "ז", "ח", "ט"]
+
+// Letters of a number below 1000, without geresh or gershayim
+function numeralLetters(value: number): string {
+  let n = value
+  let letters = ""
+  while (n >= 400) { letters += "ת"; n -= 400 }
+  letters += HUNDREDS[Math.floor(n / 100)]
+  n %= 100
+  // 15 and 16 are written ט״ו and ט״ז to avoid spelling the divine name
+  if (n === 15 || n === 16) {
+    letters += "ט" + ONES[n - 9]
+  } else {
+    letters += TENS[Math.floor(n / 10)] + ONES[n % 10]
+  }
+  return letters
+}
+
+// Format a number as a Hebrew numeral with geresh/gershayim: 1 -> "א׳",
+// 15 -> "ט״ו", 5784 -> "ה׳תשפ״ד" (thousands as a letter with a geresh).
+// Numbers from 10000 up are left in digits.
+export function formatHebrewNumeral(value: number): string {
+  if (!Number.isInteger(value) || value <= 0 || value >= 10000) return String(value)
+  const thousands = Math.floor(value / 1000)
+  const prefix = thousands ? ONES[thousands] + "׳" : ""
+  const letters = numeralLetters(value % 1000)
+  if (!letters) return prefix
+  if (letters.length === 1) return prefix + letters + "׳"
+  return prefix + letters.slice(0, -1) + "״" + letters.slice(-1)
+}
+
+// Hebrew label of a chapter or daf: "3" -> "ג׳", "2a" -> "ב.", "2b" -> "ב:"
+// (the period and colon mark the first and second amud, as in Hebrew refs)
+export function formatHebrewSection(section: string | number): string {
+  const match = String(section).match(/^(\d+)([ab]?)$/)
+  if (!match) return String(section)
+  const numeral = formatHebrewNumeral(parseInt(match[1], 10))
+  if (!match[2]) return numeral
+  return numeral.replace(/[\u05F3\u05F4]/g, "") + (match[2] === "a" ? "." : ":")
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest"
+import { StoredHighlightRepository } from "./highlights"
+
+describe("StoredHighlightRepository", () => {
+  it("creates, lists, recolors and deletes highlights by book", async () => {
+    const repository = new StoredHighlightRepository()
+    const highlight = await repository.create({
+      ref: "Genesis.1.3",
+      language: "en",
+      start: 0,
+      end: 3,
+      quote: "And",
+      color: "yellow",
+    })
+    expect(highlight).toMatchObject({ ref: "Genesis 1:3", book: "Genesis", color: "yellow" })
+    expect(await repository.list("Genesis")).toHaveLength(1)
+    expect(await repository.list("Exodus")).toEqual([])
+
+    expect((await repository.recolor(highlight.id, "green")).color).toBe("green")
+    await repository.delete(highlight.id)
+    expect(await repository.list("Genesis")).toEqual([])
+  })
+})
@@ -0,0 +1,102 @@
+// Colored highlights on spans of verse text.
+//
+// A highlight belongs to a single verse and language, and is anchored to a
+// span of that verse's anchor text (see text-anchors). Highlights are kept by
+// a HighlightRepository, on the same kind of RecordStore as annotations.
+
+import { formatRef, parseRef } from "./ref"
+import { createDefaultRecordStore, MemoryRecordStore, newId, type RecordStore } from "./record-store"
+import type { MarkedSpan, TextSpan } from "./text-anchors"
+
+export type HighlightColor = "yellow" | "green" | "blue" | "pink" | "orange"
+
+export const HIGHLIGHT_COLORS: Record<HighlightColor, { label: string; color: string }> = {
+  yellow: { label: "Yellow", color: "#fef08a" },
+  green: { label: "Green", color: "#bbf7d0" },
+  blue: { label: "Blue", color: "#bfdbfe" },
+  pink: { label: "Pink", color: "#fbcfe8" },
+  orange: { label: "Orange", color: "#fed7aa" },
+}
+
+export type Highlight = TextSpan & {
+  id: string
+  ref: string // Canonical ref of the verse, e.g. "Genesis 1:3"
+  book: string
+  language: "he" | "en"
+  color: HighlightColor
+  createdAt: string
+}
+
+export type HighlightDraft = Pick<Highlight, "ref" | "language" | "start" | "end" | "quote" | "color">
+
+export interface HighlightRepository {
+  list(book: string): Promise<Highlight[]>
+  create(draft: HighlightDraft): Promise<Highlight>
+  recolor(id: string, color: HighlightColor): Promise<Highlight>
+  delete(id: string): Promise<void>
+}
+
+// Highlights kept as one list in a RecordStore
+export class StoredHighlightRepository implements HighlightRepository {
+  constructor(private store: RecordStore<Highlight> = new MemoryRecordStore()) {}
+
+  async list(book: string): Promise<Highlight[]> {
+    return (await this.store.load()).filter(highlight => highlight.book === book)
+  }
+
+  async create(draft: HighlightDraft): Promise<Highlight> {
+    const ref = parseRef(draft.ref)
+    if (!ref) throw new Error(`Not a ref: ${draft.ref}`)
+    const highlight: Highlight = {
+      ...draft,
+      id: newId(),
+      ref: formatRef(ref),
+      book: ref.book,
+      createdAt: new Date().toISOString(),
+    }
+    await this.store.save([...(await this.store.load()), highlight])
+    return highlight
+  }
+
+  async recolor(id: string, color: HighlightColor): Promise<Highlight> {
+    const highlights = await this.store.load()
+    const existing = highlights.find(highlight => highlight.id === id)
+    if (!existing) throw new Error(`No highlight ${id}`)
+    const updated = { ...existing, color }
+    await this.store.save(highlights.map(highlight => (highlight.id === id ? updated : highlight)))
+    return updated
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.save((await this.store.load()).filter(highlight => highlight.id !== id))
+  }
+}
+
+export function createDefaultHighlightRepository(): HighlightRepository {
+  return new StoredHighlightRepository(createDefaultRecordStore("sefaria-highlights", "highlights"))
+}
+
+let repository: HighlightRepository | null = null
+
+export function getHighlightRepository(): HighlightRepository {
+  if (!repository) repository = createDefaultHighlightRepository()
+  return repository
+}
+
+export function setHighlightRepository(next: HighlightRepository) {
+  repository = next
+}
+
+// Spans to mark in one language of a verse
+export function highlightSpans(highlights: Highlight[], ref: string, language: "he" | "en"): MarkedSpan[] {
+  return highlights
+    .filter(highlight => highlight.ref === ref && highlight.language === language)
+    .map(highlight => ({
+      id: highlight.id,
+      start: highlight.start,
+      end: highlight.end,
+      quote: highlight.quote,
+      color: HIGHLIGHT_COLORS[highlight.color].color,
+      className: "verse-highlight",
+    }))
+}
@@ -1,18 +1,28 @@
-import neo4j, { Driver, Session } from "neo4j-driver"
+// Server-only Neo4j access. Never import this from a client component: the
+// driver and credentials must stay on the server. The browser goes through
+// the /api/graph routes (see lib/graph.ts).
 
-// NOTE: In a production app, do NOT expose credentials in the browser.
-// These are provided by the user for direct browser connection.
-const NEO4J_URI = (process.env.NEXT_PUBLIC_NEO4J_URI || "neo4j+s://8260863b.databases.neo4j.io").trim()
-const NEO4J_USER = process.env.NEXT_PUBLIC_NEO4J_USER || "neo4j"
-const NEO4J_PASSWORD = process.env.NEXT_PUBLIC_NEO4J_PASSWORD || "IJYDpas_0uO5jbjB6Upk7uiEn_Gs-nb9vyO3oUH6v5c"
+import neo4j, { Driver, Node, Path, QueryResult, Relationship, Session } from "neo4j-driver"
+import { ApiError } from "./api-error"
+import { MAX_GRAPH_DEPTH, normalizeNodeType, normalizeRelationshipType, type GraphData, type GraphLink, type GraphNode } from "./graph"
+
+if (typeof window !== "undefined") {
+  throw new Error("lib/neo4j is server-only; use lib/graph from the browser")
+}
 
 let cachedDriver: Driver | null = null
 
 function getDriver(): Driver {
   if (cachedDriver) return cachedDriver
+  const uri = process.env.NEO4J_URI?.trim()
+  const user = process.env.NEO4J_USER
+  const password = process.env.NEO4J_PASSWORD
+  if (!uri || !user || !password) {
+    throw new ApiError(503, "Graph database is not configured (set NEO4J_URI, NEO4J_USER and NEO4J_PASSWORD)")
+  }
   cachedDriver = neo4j.driver(
-    NEO4J_URI,
-    neo4j.auth.basic(NEO4J_USER, NEO4J_PASSWORD),
+    uri,
+    neo4j.auth.basic(user, password),
     {
       // Make integers plain JS numbers for convenience in the UI
       disableLosslessIntegers: true,
@@ -21,60 +31,11 @@ function getDriver(): Driver {
   return cachedDriver
 }
 
-export type GraphNode = {
-  id: string // Uniquely identifies each GraphNode. Example: Node-1, Node-2, Node-3, ...
-  title: string
-  type: "current" | "halakhic" | "aggadic" | "lexical" | "responsa" | "commentary" | "mishnah" | "talmud" | "kabbalah"
-    
-  snippet: string
-  content?: string // Full text content
-  url?: string
-
-  color?: string
-
-  metadata: {
-    genre?: string
-    author?: string
-    timePeriod?: string
-  }
-
-  simulation?: {
-    x?: number
-    y?: number
-    vx?: number
-    vy?: number
-    fx?: number | null
-    fy?: number | null
-  }
-}
-
-export type GraphLink = {
-  id: string // Uniquely identifies each GraphLink. Example: Link-1, Link-2, Link-3, ...
-  source: string | GraphNode // ID of Source GraphNode or node object after D3 processes
-  target: string | GraphNode // ID of Target GraphNode or node object after D3 processes
-  type: "explicit"
-  
-  strength: number
-  weight?: number
-
-  simulation?: {
-    index?: number
-    distance?: number
-  }
-}
-
-export type GraphData = {
-  nodes: GraphNode[]
-  links: GraphLink[]
-}
-
 function toGraphNode(node: any): GraphNode {
   const props = (node && node.properties) || {}
   const title = props.title || props.id || "Unknown"
-  const rawType = (props.type || "commentary").toString()
-  const allowedTypes = ["current","halakhic","aggadic","lexical","responsa","commentary","mishnah","talmud","kabbalah"] as const
-  const normalizedType = (allowedTypes.includes(rawType as any) ? rawType : "commentary") as GraphNode["type"]
-  
+  const category = props.category || props.primary_category || props.type || undefined
+
   // Enhanced content field mapping - try multiple possible property names
   const content = props.content_en ||
                   undefined
@@ -82,7 +43,8 @@ function toGraphNode(node: any): GraphNode {
   return {
     id: props.id || title,
     title,
-    type: normalizedType,
+    type: normalizeNodeType(category),
+    category: category ? String(category) : undefined,
     snippet: props.snippet || props.summary || "",
     content,
     url: props.url || undefined,
@@ -95,85 +57,178 @@ function toGraphNode(node: any): GraphNode {
   }
 }
 
-export async function fetchConnectionsForVerse(verseId: string): Promise<GraphData> {
-  const driver = getDriver()
-  const session: Session = driver.session()
-  try {
-    const result = await session.run(
-      `MATCH (n {id: $id})-[r]-(connected)
-       RETURN connected, r AS rel, type(r) AS relType,
-              CASE WHEN startNode(r) = n THEN 'out' ELSE 'in' END AS dir
-       LIMIT 50`,
-      { id: verseId }
-    )
-
-
-    // Create a center node representing the selected verse
-    const centerNode: GraphNode = {
-      id: verseId,
-      title: verseId,
+// Strength used when a relationship carries no strength, weight or score
+const DEFAULT_LINK_STRENGTH = 0.7
+
+function toGraphLink(rel: Relationship, source: string, target: string): GraphLink {
+  const props: any = rel.properties || {}
+  const raw = Number(props.strength ?? props.weight ?? props.score)
+  // Scores above 1 are read as percentages
+  const strength = Number.isFinite(raw)
+    ? Math.min(1, Math.max(0.1, raw > 1 ? raw / 100 : raw))
+    : DEFAULT_LINK_STRENGTH
+  const weight = Number(props.weight)
+  return {
+    id: rel.elementId,
+    source,
+    target,
+    type: normalizeRelationshipType(rel.type),
+    relationType: rel.type,
+    strength,
+    weight: Number.isFinite(weight) ? weight : undefined,
+  }
+}
+
+// Relationship properties describe the source they lead to; copy them onto
+// the node's metadata for filtering
+function applyRelationshipMetadata(node: GraphNode, rel: Relationship) {
+  const relProps: any = rel.properties || {}
+  if (relProps.category && !node.metadata.genre) {
+    node.metadata.genre = relProps.category
+  }
+  // Nodes without a category of their own take the one recorded on the link
+  if (relProps.category && !node.category) {
+    node.category = String(relProps.category)
+    node.type = normalizeNodeType(node.category)
+  }
+  if (relProps.author_en && !node.metadata.author) {
+    node.metadata.author = relProps.author_en
+  }
+  if (relProps.timePeriod && !node.metadata.timePeriod) {
+    node.metadata.timePeriod = relProps.timePeriod
+  }
+}
+
+// Build GraphData from records with a `path` column. When `centerId` is given
+// that node is replaced by a synthetic "current" node for the selected verse.
+function pathsToGraph(result: QueryResult, centerId?: string): GraphData {
+  const nodeById = new Map<string, GraphNode>()
+  const idByElementId = new Map<string, string>()
+  const links = new Map<string, GraphLink>()
+
+  if (centerId) {
+    nodeById.set(centerId, {
+      id: centerId,
+      title: centerId,
       type: "current",
       snippet: "Selected verse",
       content: undefined, // Will be populated if available in the database
       metadata: {},
-    }
+    })
+  }
+
+  const addNode = (neoNode: Node): GraphNode => {
+    const node = toGraphNode(neoNode)
+    idByElementId.set(neoNode.elementId, node.id)
+    const existing = nodeById.get(node.id)
+    if (existing) return existing
+    nodeById.set(node.id, node)
+    return node
+  }
 
-    const nodes: GraphNode[] = [centerNode]
-    const links: GraphLink[] = []
-    const nodeById = new Map<string, GraphNode>()
-    nodeById.set(centerNode.id, centerNode)
-
-    let linkIdCounter = 0
-
-    for (const record of result.records) {
-      const neoNode = record.get("connected")
-      if (!neoNode) continue
-      
-      const connectedNode = toGraphNode(neoNode)
-
-      // Map relationship properties onto node metadata for filtering
-      const rel: any = record.get("rel")
-      const relProps = (rel && rel.properties) || {}
-      if (relProps.category && !connectedNode.metadata.genre) {
-        connectedNode.metadata.genre = relProps.category
-      }
-      if (relProps.author_en && !connectedNode.metadata.author) {
-        connectedNode.metadata.author = relProps.author_en
-      }
-      if (relProps.timePeriod && !connectedNode.metadata.timePeriod) {
-        connectedNode.metadata.timePeriod = relProps.timePeriod
-      }
-      if (!nodeById.has(connectedNode.id)) {
-        nodeById.set(connectedNode.id, connectedNode)
-        nodes.push(connectedNode)
-      }
-
-      const dir = (record.get("dir") || "out").toString()
-      
-      const link: GraphLink = dir === "out"
-        ? { 
-            id: `link-${linkIdCounter++}`, 
-            source: centerNode.id, 
-            target: connectedNode.id, 
-            type: "explicit", 
-            strength: 0.7 
-          }
-        : { 
-            id: `link-${linkIdCounter++}`, 
-            source: connectedNode.id, 
-            target: centerNode.id, 
-            type: "explicit", 
-            strength: 0.7 
-          }
-      links.push(link)
+  for (const record of result.records) {
+    const path: Path | null = record.get("path")
+    if (!path) continue
+    for (const segment of path.segments) {
+      addNode(segment.start)
+      const far = addNode(segment.end)
+      const rel = segment.relationship
+      if (far.type !== "current") applyRelationshipMetadata(far, rel)
+      if (links.has(rel.elementId)) continue
+      const source = idByElementId.get(rel.startNodeElementId)
+      const target = idByElementId.get(rel.endNodeElementId)
+      if (source && target) links.set(rel.elementId, toGraphLink(rel, source, target))
     }
+  }
 
-    return {
-      nodes,
-      links,
+  return { nodes: Array.from(nodeById.values()), links: Array.from(links.values()) }
+}
+
+function parseDepth(raw?: string): number {
+  if (raw === undefined) return 1
+  const depth = Number(raw)
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_GRAPH_DEPTH) {
+    throw new ApiError(400, `depth must be an integer from 1 to ${MAX_GRAPH_DEPTH}`)
+  }
+  return depth
+}
+
+// Row limits grow with depth so deeper neighborhoods are not cut off after the first hop
+const NEIGHBORHOOD_LIMITS = [50, 150, 300]
+
+function neighborhoodCypher(params: Record<string, string>): string {
+  const depth = parseDepth(params.depth)
+  return `MATCH path = (n {id: $id})-[*1..${depth}]-(connected)
+       WHERE connected <> n
+       RETURN path
+       LIMIT ${NEIGHBORHOOD_LIMITS[depth - 1]}`
+}
+
+type GraphQuery = {
+  required: string[]
+  optional?: string[]
+  // Cypher comes from a fixed template; only validated integers (depth) are
+  // spliced in, and every value goes through driver parameters
+  cypher: (params: Record<string, string>) => string
+  toGraph: (result: QueryResult, params: Record<string, string>) => GraphData
+}
+
+// The only queries the API will run
+const GRAPH_QUERIES: Record<string, GraphQuery> = {
+  connections: {
+    required: ["id"],
+    optional: ["depth"],
+    cypher: neighborhoodCypher,
+    toGraph: (result, params) => pathsToGraph(result, params.id),
+  },
+  neighbors: {
+    required: ["id"],
+    optional: ["depth"],
+    cypher: neighborhoodCypher,
+    toGraph: result => pathsToGraph(result),
+  },
+  path: {
+    required: ["from", "to"],
+    cypher: () => `MATCH (a {id: $from}), (b {id: $to})
+       MATCH path = shortestPath((a)-[*..6]-(b))
+       RETURN path`,
+    toGraph: result => pathsToGraph(result),
+  },
+}
+
+export function isGraphQueryName(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(GRAPH_QUERIES, name)
+}
+
+export async function runGraphQuery(name: string, params: Record<string, string>): Promise<GraphData> {
+  if (!isGraphQueryName(name)) {
+    throw new ApiError(404, `Unknown graph query: ${name}`)
+  }
+  const query = GRAPH_QUERIES[name]
+  const allowed = [...query.required, ...(query.optional ?? [])]
+  const unexpected = Object.keys(params).filter(key => !allowed.includes(key))
+  if (unexpected.length > 0) {
+    throw new ApiError(400, `Unexpected parameters for ${name}: ${unexpected.join(", ")}`)
+  }
+  const missing = query.required.filter(key => !params[key])
+  if (missing.length > 0) {
+    throw new ApiError(400, `Missing parameters for ${name}: ${missing.join(", ")}`)
+  }
+
+  const cypher = query.cypher(params)
+
+  const session: Session = getDriver().session()
+  try {
+    let result: QueryResult
+    try {
+      result = await session.run(cypher, params)
+    } catch (error) {
+      console.error(`[graph] ${name} failed:`, error)
+      throw new ApiError(502, "Graph database query failed")
     }
+    return query.toGraph(result, params)
   } finally {
     await session.close()
     // Keep driver open and cached for reuse
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+// Lists of the reader's own records (annotations, highlights): kept in one
+// localStorage entry per kind in the browser, in memory elsewhere. The
+// repositories built on a RecordStore own the records' shape and rules.
+
+export interface RecordStore<T> {
+  load(): Promise<T[]>
+  save(records: T[]): Promise<void>
+}
+
+export function newId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID()
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export class MemoryRecordStore<T> implements RecordStore<T> {
+  private records: T[] = []
+
+  async load(): Promise<T[]> {
+    return this.records
+  }
+
+  async save(records: T[]): Promise<void> {
+    this.records = records
+  }
+}
+
+// All records of one kind in a single localStorage entry, stored as
+// `{ version: 1, [field]: records }`
+export class LocalStorageRecordStore<T> implements RecordStore<T> {
+  constructor(private storageKey: string, private field: string) {}
+
+  async load(): Promise<T[]> {
+    try {
+      const raw = localStorage.getItem(this.storageKey)
+      const stored = raw ? JSON.parse(raw) : null
+      return Array.isArray(stored?.[this.field]) ? stored[this.field] : []
+    } catch (error) {
+      console.warn(`Failed to read ${this.field} from localStorage:`, error)
+      return []
+    }
+  }
+
+  async save(records: T[]): Promise<void> {
+    localStorage.setItem(this.storageKey, JSON.stringify({ version: 1, [this.field]: records }))
+  }
+}
+
+export function createDefaultRecordStore<T>(storageKey: string, field: string): RecordStore<T> {
+  if (typeof window !== "undefined" && typeof localStorage !== "undefined") {
+    return new LocalStorageRecordStore<T>(storageKey, field)
+  }
+  return new MemoryRecordStore<T>()
+}
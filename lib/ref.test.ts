@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { formatRef, normalizeBookTitle, parseRef, parseRefPath, refToPath } from "./ref"
+
+describe("normalizeBookTitle", () => {
+  it("re-cases slugs", () => {
+    expect(normalizeBookTitle("rashi_on_genesis")).toBe("Rashi on Genesis")
+    expect(normalizeBookTitle("song-of-songs")).toBe("Song of Songs")
+  })
+
+  it("keeps titles that already have capitals", () => {
+    expect(normalizeBookTitle("Guide for the Perplexed")).toBe("Guide for the Perplexed")
+    expect(normalizeBookTitle("Song_of_Songs")).toBe("Song of Songs")
+    expect(normalizeBookTitle("Sefer HaChinukh")).toBe("Sefer HaChinukh")
+  })
+})
+
+describe("parseRef / formatRef", () => {
+  it.each([
+    "Genesis 1:1",
+    "Genesis 1:1-2:3",
+    "Berakhot 2a:3",
+    "Rashi on Genesis 1:1:2",
+    "Guide for the Perplexed 1:1",
+    "Song of Songs 2",
+  ])("round-trips %s", ref => {
+    const parsed = parseRef(ref)
+    expect(parsed && formatRef(parsed)).toBe(ref)
+    expect(parsed && parseRef(formatRef(parsed, "url"))).toEqual(parsed)
+  })
+})
+
+describe("parseRefPath", () => {
+  it("reads the long /texts paths down to the verse", () => {
+    expect(refToPath(parseRefPath("/texts/Tanakh/Genesis")!)).toBe("/Genesis")
+    expect(refToPath(parseRefPath("/texts/Tanakh/Genesis/1")!)).toBe("/Genesis.1")
+    expect(refToPath(parseRefPath("/texts/Tanakh/Song_of_Songs/2/3")!)).toBe("/Song_of_Songs.2.3")
+  })
+})
@@ -0,0 +1,270 @@
+// Parsing and formatting of Sefaria refs.
+//
+// A ref is a book title followed by an address, e.g. "Genesis 1:1",
+// "Berakhot 2a:3", "Rashi on Genesis 1:1:2" or the range "Genesis 1:1-2:3".
+// The same ref appears in our short URLs as "Genesis.1.1-2.3" (spaces become
+// underscores, colons become dots) and in Hebrew as "בראשית א׳:א׳".
+// Everything that reads or writes refs should go through this module so that
+// a ref copied from Sefaria always round-trips to the same page.
+
+import { formatHebrewSection, parseHebrewNumeral } from "./hebrew"
+
+export type RefLanguage = "en" | "he"
+
+export type RefFormat = "canonical" | "url"
+
+export interface SefariaRef {
+  // Book title with spaces, e.g. "Genesis" or "Rashi on Genesis"
+  book: string
+  // Address of the first segment, outermost first: ["1", "1"] or ["2a", "3"]
+  sections: string[]
+  // Address of the last segment; equal to `sections` when the ref is not a range
+  toSections: string[]
+  // Set for commentary refs such as "Rashi on Genesis 1:1:2"
+  commentary?: {
+    commentator: string
+    baseBook: string
+  }
+  lang: RefLanguage
+}
+
+// Words that Sefaria keeps lowercase inside titles ("Song of Songs", "Rashi on Genesis")
+const TITLE_CONNECTORS = new Set(["on", "of", "the", "and", "to", "in", "le", "la", "de"])
+
+const HEBREW_LETTER = /[א-ת]/
+const SECTION_PATTERN = /^\d+[ab]?$/
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+// Turn a URL slug or loosely typed title into a Sefaria title:
+// "rashi_on_genesis" -> "Rashi on Genesis", "Song-of-Songs" -> "Song of Songs".
+// Words are only capitalized when the input is all lowercase; a title that
+// already has capitals ("Guide for the Perplexed", "Song_of_Songs") keeps its
+// casing.
+export function normalizeBookTitle(raw: string): string {
+  const words = safeDecode(raw).replace(/[_-]+/g, " ").trim().split(/\s+/).filter(Boolean)
+  if (words.some(word => word !== word.toLowerCase())) return words.join(" ")
+  return words
+    .map((word, index) => {
+      if (HEBREW_LETTER.test(word)) return word
+      if (index > 0 && TITLE_CONNECTORS.has(word)) return word
+      return word.charAt(0).toUpperCase() + word.slice(1)
+    })
+    .join(" ")
+}
+
+function parseCommentary(book: string): SefariaRef["commentary"] {
+  const match = book.match(/^(.+?) on (.+)$/)
+  if (!match) return undefined
+  return { commentator: match[1], baseBook: match[2] }
+}
+
+// Parse "1:1-2:3" / "1.1-2.3" / "2a:3-5" into start and end sections
+function parseAddress(address: string): { sections: string[]; toSections: string[] } | null {
+  if (!address) return { sections: [], toSections: [] }
+  const [start, end, ...rest] = address.split("-")
+  if (rest.length > 0 || !start) return null
+  const sections = start.split(/[:.]/)
+  if (!sections.every(s => SECTION_PATTERN.test(s))) return null
+  if (end === undefined) return { sections, toSections: sections }
+  const endParts = end.split(/[:.]/)
+  if (endParts.length > sections.length || !endParts.every(s => SECTION_PATTERN.test(s))) return null
+  // A shorter end is right-aligned: "1:1-5" ends at 1:5
+  const toSections = [...sections.slice(0, sections.length - endParts.length), ...endParts]
+  return { sections, toSections }
+}
+
+function buildRef(book: string, address: { sections: string[]; toSections: string[] }, lang: RefLanguage): SefariaRef {
+  const ref: SefariaRef = { book, sections: address.sections, toSections: address.toSections, lang }
+  const commentary = parseCommentary(book)
+  if (commentary) ref.commentary = commentary
+  return ref
+}
+
+// Hebrew address: "א׳:ב׳-ג׳:ד׳", with dapim written "ב." (amud a) or "ב:" (amud b)
+function parseHebrewAddress(address: string): { sections: string[]; toSections: string[] } | null {
+  const parseSide = (side: string): string[] | null => {
+    const tokens = side.trim().match(/[^\s:.]+[.:]?(?=\s|$)|[^\s:.]+/g)
+    if (!tokens) return null
+    const parts: string[] = []
+    for (const token of tokens) {
+      const amud = token.endsWith(".") ? "a" : token.endsWith(":") ? "b" : ""
+      const n = parseHebrewNumeral(amud ? token.slice(0, -1) : token)
+      if (n == null) return null
+      parts.push(`${n}${amud}`)
+    }
+    return parts
+  }
+  const [start, end, ...rest] = address.split("-")
+  if (rest.length > 0) return null
+  const sections = parseSide(start)
+  if (!sections) return null
+  if (end === undefined) return { sections, toSections: sections }
+  const endParts = parseSide(end)
+  if (!endParts || endParts.length > sections.length) return null
+  return { sections, toSections: [...sections.slice(0, sections.length - endParts.length), ...endParts] }
+}
+
+function parseHebrewRef(input: string): SefariaRef | null {
+  const tokens = input.split(/\s+/)
+  // The book is the shortest prefix after which everything parses as an address
+  for (let i = 1; i <= tokens.length; i++) {
+    const book = tokens.slice(0, i).join(" ")
+    const rest = tokens.slice(i).join(" ")
+    if (!rest) return buildRef(book, { sections: [], toSections: [] }, "he")
+    if (parseHebrewNumeral(tokens[i].split(/[:.\-]/)[0]) == null) continue
+    const address = parseHebrewAddress(rest)
+    if (address) return buildRef(book, address, "he")
+  }
+  return null
+}
+
+// Parse a ref in canonical ("Genesis 1:1-2:3"), URL ("Genesis.1.1-2.3",
+// "Rashi_on_Genesis.1.1.2") or Hebrew ("בראשית א׳:א׳") form.
+// Returns null when the input is not a ref.
+export function parseRef(input: string): SefariaRef | null {
+  const value = safeDecode(input).trim().replace(/^\/+|\/+$/g, "")
+  if (!value) return null
+
+  if (HEBREW_LETTER.test(value)) return parseHebrewRef(value)
+
+  // Canonical form: the address follows the last space
+  const lastSpace = value.lastIndexOf(" ")
+  if (lastSpace > 0 && !value.includes("_")) {
+    const address = parseAddress(value.slice(lastSpace + 1))
+    if (address) return buildRef(normalizeBookTitle(value.slice(0, lastSpace)), address, "en")
+  }
+
+  // URL form: the address follows the first dot
+  const firstDot = value.indexOf(".")
+  if (firstDot > 0) {
+    const address = parseAddress(value.slice(firstDot + 1))
+    if (!address) return null
+    return buildRef(normalizeBookTitle(value.slice(0, firstDot)), address, "en")
+  }
+
+  // Bare book title
+  if (!/^[\w\s'’,-]+$/.test(value)) return null
+  return buildRef(normalizeBookTitle(value), { sections: [], toSections: [] }, "en")
+}
+
+// Parse a ref from one of our own paths: "/Genesis.1.3" or "/texts/Tanakh/Genesis/1"
+export function parseRefPath(pathname: string): SefariaRef | null {
+  const parts = safeDecode(pathname).split("/").filter(Boolean)
+  if (parts[0] === "texts" && parts.length >= 3) {
+    const address = parts.slice(3).join(".")
+    return parseRef(address ? `${parts[2]}.${address}` : parts[2])
+  }
+  if (parts.length === 1) return parseRef(parts[0])
+  return null
+}
+
+export function isRangeRef(ref: SefariaRef): boolean {
+  return ref.sections.join(":") !== ref.toSections.join(":")
+}
+
+export function isDafSection(section: string): boolean {
+  return /^\d+[ab]$/.test(section)
+}
+
+// Numeric part of a section for arithmetic: "12" -> 12, "2b" -> 2
+export function sectionNumber(section: string | number): number | null {
+  if (typeof section === "number") return Number.isFinite(section) ? section : null
+  const match = section.match(/^(\d+)/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+// Order two sections of the same depth: "2" < "10", "2a" < "2b" < "3a"
+export function compareSections(a: string | number, b: string | number): number {
+  const diff = (sectionNumber(a) ?? 0) - (sectionNumber(b) ?? 0)
+  if (diff !== 0) return diff
+  return String(a).localeCompare(String(b))
+}
+
+// The section that follows: "5" -> "6", "2a" -> "2b", "2b" -> "3a"
+export function nextSection(section: string | number): string {
+  const value = String(section)
+  const n = sectionNumber(value) ?? 0
+  if (isDafSection(value)) return value.endsWith("a") ? `${n}b` : `${n + 1}a`
+  return String(n + 1)
+}
+
+// All sections from `start` to `end` inclusive, e.g. "2a".."3b" -> ["2a", "2b", "3a", "3b"]
+export function sectionsBetween(start: string | number, end: string | number): string[] {
+  const out: string[] = []
+  let current = String(start)
+  while (compareSections(current, end) <= 0 && out.length < 1000) {
+    out.push(current)
+    current = nextSection(current)
+  }
+  return out
+}
+
+// Order two addresses section by section: ["1", "9"] < ["1", "10"] < ["2", "1"].
+// A shorter address sorts before the segments it contains.
+export function compareAddresses(a: Array<string | number>, b: Array<string | number>): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const diff = compareSections(a[i], b[i])
+    if (diff !== 0) return diff
+  }
+  return a.length - b.length
+}
+
+// Whether the segment at `address` (e.g. [3, 16]) lies within `ref`
+export function refIncludes(ref: SefariaRef, address: Array<string | number>): boolean {
+  if (ref.sections.length === 0) return true
+  const depth = ref.sections.length
+  const prefix = address.slice(0, depth)
+  return compareAddresses(prefix, ref.sections) >= 0 && compareAddresses(prefix, ref.toSections.slice(0, depth)) <= 0
+}
+
+function formatHebrewSections(sections: string[]): string {
+  let out = ""
+  sections.forEach((section, index) => {
+    if (index > 0) out += isDafSection(sections[index - 1]) ? " " : ":"
+    out += formatHebrewSection(section)
+  })
+  return out
+}
+
+function formatAddress(ref: SefariaRef, format: RefFormat): string {
+  const { sections, toSections } = ref
+  if (sections.length === 0) return ""
+  const separator = format === "url" ? "." : ":"
+  const join = (parts: string[]) =>
+    ref.lang === "he" && format === "canonical" ? formatHebrewSections(parts) : parts.join(separator)
+  let address = join(sections)
+  if (isRangeRef(ref)) {
+    let diff = 0
+    while (diff < sections.length - 1 && sections[diff] === toSections[diff]) diff++
+    address += "-" + join(toSections.slice(diff))
+  }
+  return address
+}
+
+// Format a ref as "Genesis 1:1-2:3" (canonical) or "Genesis.1.1-2.3" (url)
+export function formatRef(ref: SefariaRef, format: RefFormat = "canonical"): string {
+  const address = formatAddress(ref, format)
+  if (format === "url") {
+    const book = ref.book.replace(/\s+/g, "_")
+    return address ? `${book}.${address}` : book
+  }
+  return address ? `${ref.book} ${address}` : ref.book
+}
+
+// Short URL path for a ref: "/Genesis.1.3-2.4"
+export function refToPath(ref: SefariaRef): string {
+  return `/${formatRef(ref, "url")}`
+}
+
+export function makeRef(book: string, sections: Array<string | number>, toSections?: Array<string | number>): SefariaRef {
+  const start = sections.map(String)
+  const end = toSections ? toSections.map(String) : start
+  return buildRef(normalizeBookTitle(book), { sections: start, toSections: end }, "en")
+}
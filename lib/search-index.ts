@@ -0,0 +1,387 @@
+// Client-side full-text index over the books a reader has loaded or downloaded.
+//
+// Each verse is indexed once per language, as the words of its text (see
+// nodesText) with their positions so phrases can be matched. Hebrew words are
+// indexed in normalizeHebrew form, without nikkud, cantillation or
+// abbreviation marks, and prefix queries also fold doubled vav and yod; English
+// words are indexed by a light stem, so "created" finds "creates". Every book's
+// index is persisted in IndexedDB, and LocalSearchIndex is a SearchBackend, so
+// the /search page can run on it with setSearchBackend.
+
+import { containsHebrew, foldKtiv, normalizeHebrew } from "./hebrew"
+import { compareAddresses, formatRef, makeRef } from "./ref"
+import { facetsBelow, type SearchBackend, type SearchHit, type SearchQuery, type SearchResults, type SnippetPart } from "./search"
+import { nodesText, parseSefariaHtml } from "./sefaria-html"
+
+// One verse as the reader loads it; he and en are Sefaria HTML
+export type IndexedVerse = { verse: number; he: string; en: string }
+
+// A downloaded book, chapter by chapter
+export type BookBundle = {
+  book: string
+  path?: string // Category path including the book, e.g. "Tanakh/Torah/Genesis"
+  chapters: Array<{ chapter: string | number; verses: IndexedVerse[] }>
+}
+
+type IndexedDocument = {
+  chapter: string
+  verse: number
+  language: "he" | "en"
+  text: string
+}
+
+// term -> [document, position] pairs
+type Postings = Map<string, Array<[number, number]>>
+
+type BookIndexData = {
+  version: number
+  book: string
+  path?: string
+  chapters: string[]
+  documents: IndexedDocument[]
+  postings: Postings
+}
+
+export interface SearchIndexStore {
+  load(book: string): Promise<BookIndexData | undefined>
+  save(index: BookIndexData): Promise<void>
+  books(): Promise<string[]>
+}
+
+// Bump when tokenization or normalization changes; older indexes are rebuilt
+const INDEX_VERSION = 1
+
+// Prefix particles a Hebrew word may carry before the word searched for
+const PARTICLES = new Set(["ו", "ה", "ב", "כ", "ל", "מ", "ש"])
+const QUOTES = /['"\u2019]/g
+const WORD = /[\p{L}\p{N}][\p{L}\p{M}\p{N}'"\u2019\u05F3\u05F4]*/gu
+// Words of context shown on each side of a snippet's matches
+const SNIPPET_CONTEXT = 12
+
+type Token = { term: string; start: number; end: number }
+
+// Porter's first step: plurals and -ed/-ing forms share a stem
+function stem(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word
+  const hasVowel = (s: string) => /[aeiou]|[^aeiou]y/.test(s)
+  let w = word
+  if (w.endsWith("sses") || w.endsWith("ies")) w = w.slice(0, -2)
+  else if (w.endsWith("s") && !w.endsWith("ss")) w = w.slice(0, -1)
+
+  if (w.endsWith("eed")) {
+    if (w.length > 4) w = w.slice(0, -1)
+  } else {
+    const suffix = w.endsWith("ed") ? 2 : w.endsWith("ing") ? 3 : 0
+    if (suffix && hasVowel(w.slice(0, -suffix))) {
+      w = w.slice(0, -suffix)
+      if (/(at|bl|iz)$/.test(w)) w += "e"
+      else if (/([^aeioulsz])\1$/.test(w)) w = w.slice(0, -1)
+      else if (/^[^aeiou]+[aeiou][^aeiouwxy]$/.test(w)) w += "e"
+    }
+  }
+  if (w.endsWith("y") && hasVowel(w.slice(0, -1))) w = `${w.slice(0, -1)}i`
+  return w
+}
+
+function normalizeWord(word: string): string {
+  if (containsHebrew(word)) return normalizeHebrew(word)
+  return stem(word.toLowerCase().replace(QUOTES, ""))
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  for (const match of Array.from(text.matchAll(WORD))) {
+    // A closing quote belongs to the sentence, not the word
+    const word = match[0].replace(/['"\u2019]+$/, "")
+    const start = match.index ?? 0
+    const term = normalizeWord(word)
+    if (term) tokens.push({ term, start, end: start + word.length })
+  }
+  return tokens
+}
+
+// Forms of an indexed term a prefix query may start: the term itself and, in
+// Hebrew, the term without up to two leading particles (ובארץ -> בארץ -> ארץ),
+// with doubled vav and yod folded (see foldKtiv)
+function prefixForms(term: string): string[] {
+  if (!containsHebrew(term)) return [term]
+  const forms = [term]
+  let rest = term
+  while (forms.length < 3 && rest.length > 2 && PARTICLES.has(rest[0])) {
+    rest = rest.slice(1)
+    forms.push(rest)
+  }
+  return forms.map(foldKtiv)
+}
+
+function verseText(html: string): string {
+  return nodesText(parseSefariaHtml(html)).replace(/\s+/g, " ").trim()
+}
+
+function emptyIndex(book: string): BookIndexData {
+  return { version: INDEX_VERSION, book, chapters: [], documents: [], postings: new Map() }
+}
+
+function addDocument(index: BookIndexData, document: IndexedDocument) {
+  const id = index.documents.push(document) - 1
+  tokenize(document.text).forEach((token, position) => {
+    const list = index.postings.get(token.term)
+    if (list) list.push([id, position])
+    else index.postings.set(token.term, [[id, position]])
+  })
+}
+
+// Positions of each query term's matches, by document
+function termMatches(index: BookIndexData, term: string, mode: SearchQuery["mode"]): Map<number, Set<number>> {
+  const byDocument = new Map<number, Set<number>>()
+  const add = (postings: Array<[number, number]>) => {
+    for (const [id, position] of postings) {
+      const positions = byDocument.get(id)
+      if (positions) positions.add(position)
+      else byDocument.set(id, new Set([position]))
+    }
+  }
+  if (mode === "exact") {
+    add(index.postings.get(term) || [])
+  } else {
+    const prefix = containsHebrew(term) ? foldKtiv(term) : term
+    index.postings.forEach((postings, indexed) => {
+      if (prefixForms(indexed).some(form => form.startsWith(prefix))) add(postings)
+    })
+  }
+  return byDocument
+}
+
+// Positions matched in each document that has every term; in exact mode only
+// where the terms run consecutively
+function matchDocuments(index: BookIndexData, terms: string[], mode: SearchQuery["mode"]): Map<number, number[]> {
+  const perTerm = terms.map(term => termMatches(index, term, mode))
+  const found = new Map<number, number[]>()
+  perTerm[0].forEach((firstPositions, id) => {
+    if (!perTerm.every(matches => matches.has(id))) return
+    let positions: number[]
+    if (mode === "exact") {
+      positions = []
+      for (const start of Array.from(firstPositions)) {
+        if (perTerm.every((matches, offset) => matches.get(id)!.has(start + offset))) {
+          terms.forEach((_, offset) => positions.push(start + offset))
+        }
+      }
+    } else {
+      positions = perTerm.flatMap(matches => Array.from(matches.get(id)!))
+    }
+    if (positions.length > 0) found.set(id, Array.from(new Set(positions)).sort((a, b) => a - b))
+  })
+  return found
+}
+
+// The matched words of a text with some context around them
+function snippet(text: string, positions: number[]): SnippetPart[] {
+  const tokens = tokenize(text)
+  const first = Math.max(0, positions[0] - SNIPPET_CONTEXT)
+  const last = Math.min(tokens.length - 1, positions[positions.length - 1] + SNIPPET_CONTEXT)
+  const from = first === 0 ? 0 : tokens[first].start
+  const to = last === tokens.length - 1 ? text.length : tokens[last].end
+
+  const parts: SnippetPart[] = []
+  let cursor = from
+  for (const position of positions) {
+    const token = tokens[position]
+    if (!token) continue
+    if (token.start > cursor) parts.push({ text: text.slice(cursor, token.start), match: false })
+    parts.push({ text: text.slice(token.start, token.end), match: true })
+    cursor = token.end
+  }
+  if (to > cursor) parts.push({ text: text.slice(cursor, to), match: false })
+  if (from > 0) parts.unshift({ text: "… ", match: false })
+  if (to < text.length) parts.push({ text: " …", match: false })
+  return parts
+}
+
+export class MemorySearchIndexStore implements SearchIndexStore {
+  private indexes = new Map<string, BookIndexData>()
+
+  async load(book: string): Promise<BookIndexData | undefined> {
+    return this.indexes.get(book)
+  }
+
+  async save(index: BookIndexData): Promise<void> {
+    this.indexes.set(index.book, index)
+  }
+
+  async books(): Promise<string[]> {
+    return Array.from(this.indexes.keys())
+  }
+}
+
+const IDB_NAME = "sefaria-search-index"
+const IDB_STORE = "books"
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Browser store, one record per book. Like the request cache, IndexedDB
+// failures degrade to an empty store: the index is rebuilt as chapters load.
+export class IndexedDBSearchIndexStore implements SearchIndexStore {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_NAME, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IDB_STORE)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.dbPromise
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open()
+    return db.transaction(IDB_STORE, mode).objectStore(IDB_STORE)
+  }
+
+  async load(book: string): Promise<BookIndexData | undefined> {
+    try {
+      const store = await this.store("readonly")
+      return (await promisifyRequest(store.get(book))) as BookIndexData | undefined
+    } catch (error) {
+      console.warn("[SearchIndex] IndexedDB read failed:", error)
+      return undefined
+    }
+  }
+
+  async save(index: BookIndexData): Promise<void> {
+    try {
+      const store = await this.store("readwrite")
+      await promisifyRequest(store.put(index, index.book))
+    } catch (error) {
+      console.warn("[SearchIndex] IndexedDB write failed:", error)
+    }
+  }
+
+  async books(): Promise<string[]> {
+    try {
+      const store = await this.store("readonly")
+      return (await promisifyRequest(store.getAllKeys())).map(String)
+    } catch (error) {
+      console.warn("[SearchIndex] IndexedDB read failed:", error)
+      return []
+    }
+  }
+}
+
+export function createDefaultSearchIndexStore(): SearchIndexStore {
+  if (typeof window !== "undefined" && typeof indexedDB !== "undefined") {
+    return new IndexedDBSearchIndexStore()
+  }
+  return new MemorySearchIndexStore()
+}
+
+export class LocalSearchIndex implements SearchBackend {
+  private indexes = new Map<string, Promise<BookIndexData>>()
+
+  constructor(private store: SearchIndexStore = createDefaultSearchIndexStore()) {}
+
+  // Index of a book, read from the store on first use
+  private index(book: string): Promise<BookIndexData> {
+    let index = this.indexes.get(book)
+    if (!index) {
+      index = this.store.load(book).then(stored => (stored?.version === INDEX_VERSION ? stored : emptyIndex(book)))
+      this.indexes.set(book, index)
+    }
+    return index
+  }
+
+  async indexedChapters(book: string): Promise<string[]> {
+    return (await this.index(book)).chapters
+  }
+
+  // Index a chapter's verses unless the chapter is already indexed. Returns
+  // whether anything was added.
+  async addChapter(book: string, chapter: string | number, verses: IndexedVerse[], path?: string): Promise<boolean> {
+    const added = await this.add(book, [{ chapter, verses }], path)
+    if (added) await this.store.save(await this.index(book))
+    return added
+  }
+
+  async addBundle(bundle: BookBundle): Promise<boolean> {
+    const added = await this.add(bundle.book, bundle.chapters, bundle.path)
+    if (added) await this.store.save(await this.index(bundle.book))
+    return added
+  }
+
+  private async add(book: string, chapters: BookBundle["chapters"], path?: string): Promise<boolean> {
+    const index = await this.index(book)
+    if (path) index.path = path
+    let added = false
+    for (const { chapter, verses } of chapters) {
+      const key = String(chapter)
+      if (index.chapters.includes(key) || verses.length === 0) continue
+      for (const verse of verses) {
+        for (const language of ["he", "en"] as const) {
+          const text = verseText(verse[language] || "")
+          if (text) addDocument(index, { chapter: key, verse: verse.verse, language, text })
+        }
+      }
+      index.chapters.push(key)
+      added = true
+    }
+    return added
+  }
+
+  // Searches query.book, or every indexed book
+  async search(query: SearchQuery): Promise<SearchResults> {
+    const terms = tokenize(query.text).map(token => token.term)
+    const books = query.book ? [query.book] : await this.store.books()
+    const hits: Array<SearchHit & { address: Array<string | number> }> = []
+
+    for (const book of books) {
+      const index = await this.index(book)
+      const path = index.path || book
+      if (terms.length === 0 || (query.path && !`${path}/`.startsWith(`${query.path}/`))) continue
+      matchDocuments(index, terms, query.mode).forEach((positions, id) => {
+        const document = index.documents[id]
+        if (query.language !== "all" && document.language !== query.language) return
+        hits.push({
+          ref: formatRef(makeRef(book, [document.chapter, document.verse])),
+          book,
+          path,
+          language: document.language,
+          snippets: [snippet(document.text, positions)],
+          address: [document.chapter, document.verse],
+        })
+      })
+    }
+
+    hits.sort((a, b) =>
+      a.book.localeCompare(b.book) || compareAddresses(a.address, b.address) || (a.language === b.language ? 0 : a.language === "he" ? -1 : 1)
+    )
+    const counts = new Map<string, number>()
+    hits.forEach(hit => counts.set(hit.path, (counts.get(hit.path) || 0) + 1))
+    const start = (query.page - 1) * query.pageSize
+    return {
+      total: hits.length,
+      page: query.page,
+      pageSize: query.pageSize,
+      hits: hits.slice(start, start + query.pageSize).map(({ address, ...hit }) => hit),
+      facets: query.book
+        ? []
+        : facetsBelow(Array.from(counts, ([path, count]) => ({ path, count })), query.path),
+    }
+  }
+}
+
+let localIndex: LocalSearchIndex | null = null
+
+export function getLocalSearchIndex(): LocalSearchIndex {
+  if (!localIndex) localIndex = new LocalSearchIndex()
+  return localIndex
+}
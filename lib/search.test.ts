@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest"
+import { parseSnippet } from "./search"
+
+describe("parseSnippet", () => {
+  it("splits highlighted words from their context", () => {
+    expect(parseSnippet("In the <b>beginning</b> God")).toEqual([
+      { text: "In the ", match: false },
+      { text: "beginning", match: true },
+      { text: " God", match: false },
+    ])
+  })
+
+  it("drops other markup and decodes every entity", () => {
+    expect(parseSnippet("<i>a&thinsp;b</i> &#1488;&#x5d1; <b>c&rlm;</b>&amp;")).toEqual([
+      { text: "a\u2009b אב ", match: false },
+      { text: "c\u200f", match: true },
+      { text: "&", match: false },
+    ])
+  })
+})
@@ -0,0 +1,229 @@
+// Full-text search over the library.
+//
+// The /search page talks to a SearchBackend. The default one queries
+// Sefaria's search API through our /api/search route; a local index can be
+// swapped in with setSearchBackend without touching the UI. The route's
+// translation to and from Sefaria's search API lives here too, so both sides
+// agree on the query and result shapes.
+
+import { containsHebrew } from "./hebrew"
+import { parseRef, refToPath } from "./ref"
+import { nodesText, parseSefariaHtml } from "./sefaria-html"
+
+// "exact" matches the words as a phrase, as written. "prefix" matches words
+// that start with the query's words; in Hebrew that includes inflected forms
+// and words carrying prefix particles (ו, ה, ב, ל...).
+export type SearchMode = "exact" | "prefix"
+
+export type SearchLanguage = "all" | "he" | "en"
+
+export type SearchQuery = {
+  text: string
+  mode: SearchMode
+  language: SearchLanguage
+  path?: string // Category path, e.g. "Tanakh/Torah"
+  book?: string // Book title, e.g. "Genesis"
+  page: number // 1-based
+  pageSize: number
+}
+
+// A snippet of matching text, split into the parts that matched and the rest
+export type SnippetPart = { text: string; match: boolean }
+
+export type SearchHit = {
+  ref: string
+  heRef?: string
+  book: string
+  path: string
+  version?: string
+  language: "he" | "en"
+  snippets: SnippetPart[][]
+}
+
+// Number of hits under a category (or book) one level below the current path
+export type SearchFacet = { path: string; label: string; count: number }
+
+export type SearchResults = {
+  total: number
+  page: number
+  pageSize: number
+  hits: SearchHit[]
+  facets: SearchFacet[]
+}
+
+export interface SearchBackend {
+  search(query: SearchQuery): Promise<SearchResults>
+}
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+// Sefaria's search pages no deeper than this many results
+export const MAX_RESULT_WINDOW = 10000
+
+// Language a query is written in
+export function queryLanguage(text: string): "he" | "en" {
+  return containsHebrew(text) ? "he" : "en"
+}
+
+export function searchQueryFromParams(params: URLSearchParams): SearchQuery {
+  const mode = params.get("mode")
+  const language = params.get("lang")
+  const page = Number(params.get("page"))
+  const size = Number(params.get("size"))
+  return {
+    text: (params.get("q") || "").trim(),
+    mode: mode === "exact" ? "exact" : "prefix",
+    language: language === "he" || language === "en" ? language : "all",
+    path: params.get("path")?.replace(/^\/+|\/+$/g, "") || undefined,
+    book: params.get("book") || undefined,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    pageSize: Number.isInteger(size) && size > 0 ? Math.min(size, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+  }
+}
+
+// Query string for a query, leaving out defaults
+export function searchQueryToParams(query: Partial<SearchQuery> & { text: string }): URLSearchParams {
+  const params = new URLSearchParams({ q: query.text })
+  if (query.mode === "exact") params.set("mode", "exact")
+  if (query.language && query.language !== "all") params.set("lang", query.language)
+  if (query.path) params.set("path", query.path)
+  if (query.book) params.set("book", query.book)
+  if (query.page && query.page > 1) params.set("page", String(query.page))
+  if (query.pageSize && query.pageSize !== DEFAULT_PAGE_SIZE) params.set("size", String(query.pageSize))
+  return params
+}
+
+export function searchUrl(query: Partial<SearchQuery> & { text: string }): string {
+  return `/search?${searchQueryToParams(query)}`
+}
+
+// Reader URL of a hit, at the matching verse
+export function hitPath(hit: SearchHit): string {
+  const ref = parseRef(hit.ref)
+  return ref ? refToPath(ref) : `/${encodeURIComponent(hit.ref)}`
+}
+
+// Text of a piece of a snippet, through the same parser as the reader's text
+function snippetText(html: string): string {
+  return nodesText(parseSefariaHtml(html))
+}
+
+// Split a highlighted snippet ("… <b>word</b> …") into parts. Any other markup
+// is dropped, so snippets can be rendered as plain text.
+export function parseSnippet(html: string, open = "<b>", close = "</b>"): SnippetPart[] {
+  const parts: SnippetPart[] = []
+  let rest = html
+  while (rest) {
+    const start = rest.indexOf(open)
+    const end = start === -1 ? -1 : rest.indexOf(close, start + open.length)
+    if (start === -1 || end === -1) {
+      parts.push({ text: snippetText(rest), match: false })
+      break
+    }
+    if (start > 0) parts.push({ text: snippetText(rest.slice(0, start)), match: false })
+    parts.push({ text: snippetText(rest.slice(start + open.length, end)), match: true })
+    rest = rest.slice(end + close.length)
+  }
+  return parts.filter(part => part.text)
+}
+
+// Facets one level below `path` (or the top-level categories), from the
+// full paths of the books that matched
+export function facetsBelow(buckets: Array<{ path: string; count: number }>, path?: string): SearchFacet[] {
+  const prefix = path ? `${path}/` : ""
+  const counts = new Map<string, number>()
+  for (const bucket of buckets) {
+    if (!bucket.path.startsWith(prefix)) continue
+    const next = bucket.path.slice(prefix.length).split("/")[0]
+    if (!next) continue
+    counts.set(next, (counts.get(next) || 0) + bucket.count)
+  }
+  return Array.from(counts.entries())
+    .map(([label, count]) => ({ path: `${prefix}${label}`, label, count }))
+    .sort((a, b) => b.count - a.count)
+}
+
+// Sefaria's search API
+
+const SEFARIA_FIELDS: Record<SearchMode, string> = { exact: "exact", prefix: "naive_lemmatizer" }
+
+// Request body for Sefaria's search-wrapper. `bookPath` is the full category
+// path of query.book, which narrows query.path.
+export function sefariaSearchBody(query: SearchQuery, bookPath?: string) {
+  const filters: string[] = []
+  const filterFields: string[] = []
+  const path = bookPath || query.path
+  if (path) {
+    filters.push(path)
+    filterFields.push("path")
+  }
+  if (query.language !== "all") {
+    filters.push(query.language)
+    filterFields.push("lang")
+  }
+  return {
+    type: "text",
+    query: query.text,
+    field: SEFARIA_FIELDS[query.mode],
+    slop: query.mode === "exact" ? 0 : 10,
+    start: (query.page - 1) * query.pageSize,
+    size: query.pageSize,
+    filters,
+    filter_fields: filterFields,
+    aggs: ["path"],
+    source_proj: true,
+    sort_method: "score",
+    sort_fields: ["pagesheetrank"],
+    sort_reverse: false,
+    sort_score_missing: 0.04,
+  }
+}
+
+// Our results from Sefaria's Elasticsearch-style response
+export function parseSefariaSearchResponse(data: any, query: SearchQuery): SearchResults {
+  const field = SEFARIA_FIELDS[query.mode]
+  const rawHits: any[] = Array.isArray(data?.hits?.hits) ? data.hits.hits : []
+  const total = typeof data?.hits?.total === "number" ? data.hits.total : Number(data?.hits?.total?.value) || 0
+  const hits = rawHits
+    .map((hit): SearchHit | null => {
+      const source = hit?._source || {}
+      if (typeof source.ref !== "string") return null
+      const highlights: string[] = hit.highlight?.[field] || Object.values(hit.highlight || {}).flat() || []
+      return {
+        ref: source.ref,
+        heRef: source.heRef,
+        book: parseRef(source.ref)?.book || source.path?.split("/").pop() || "",
+        path: source.path || "",
+        version: source.version,
+        language: source.lang === "he" ? "he" : "en",
+        snippets: highlights.map(snippet => parseSnippet(String(snippet))),
+      }
+    })
+    .filter((hit): hit is SearchHit => hit !== null)
+  const buckets: any[] = data?.aggregations?.path?.buckets || []
+  const facets = query.book
+    ? []
+    : facetsBelow(buckets.map(bucket => ({ path: String(bucket.key), count: Number(bucket.doc_count) || 0 })), query.path)
+  return { total, page: query.page, pageSize: query.pageSize, hits, facets }
+}
+
+// Sefaria's search through our /api/search route
+export class SefariaSearchBackend implements SearchBackend {
+  async search(query: SearchQuery): Promise<SearchResults> {
+    const response = await fetch(`/api/search?${searchQueryToParams(query)}`)
+    const data = await response.json().catch(() => null)
+    if (!response.ok) throw new Error(data?.error?.message || `Search failed with status ${response.status}`)
+    return data as SearchResults
+  }
+}
+
+let backend: SearchBackend | null = null
+
+export function getSearchBackend(): SearchBackend {
+  if (!backend) backend = new SefariaSearchBackend()
+  return backend
+}
+
+export function setSearchBackend(next: SearchBackend) {
+  backend = next
+}
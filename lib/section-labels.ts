@@ -0,0 +1,123 @@
+// Labels for the sections of a text ("Chapter 3", "פרק ג׳", "Daf 2a", "דף ב.")
+// from the structure Sefaria describes in a book's index: the names of its
+// levels (sectionNames) and how each level is numbered (addressTypes). The
+// same schema tells lib/section-navigation how many sections there are.
+
+import { formatHebrewSection } from "./hebrew"
+
+export type SectionLanguage = "en" | "he"
+
+export type SectionSchema = {
+  sectionNames: string[] // e.g. ["Chapter", "Verse"], ["Daf", "Line"], ["Siman", "Seif"]
+  heSectionNames: string[]
+  addressTypes: string[] // e.g. ["Perek", "Pasuk"], ["Talmud", "Integer"]
+  // Number of sections at each level, when the index gives it: [50, 1533]
+  lengths: number[]
+  // A part of a book with several parts (a node of a complex schema), e.g.
+  // "Pesach Haggadah, Magid"; what follows it is only known from Sefaria
+  complex: boolean
+}
+
+export const DEFAULT_SECTION_SCHEMA: SectionSchema = {
+  sectionNames: ["Chapter", "Verse"],
+  heSectionNames: ["פרק", "פסוק"],
+  addressTypes: ["Perek", "Pasuk"],
+  lengths: [],
+  complex: false,
+}
+
+// Hebrew names of common levels, for indexes that leave heSectionNames out
+const HEBREW_SECTION_NAMES: Record<string, string> = {
+  Chapter: "פרק",
+  Verse: "פסוק",
+  Daf: "דף",
+  Line: "שורה",
+  Siman: "סימן",
+  Seif: "סעיף",
+  Mishnah: "משנה",
+  Halakhah: "הלכה",
+  Paragraph: "פסקה",
+  Section: "סעיף",
+  Comment: "פירוש",
+}
+
+// Address types numbered by folio side, 2a/2b
+const FOLIO_ADDRESS_TYPES = new Set(["Talmud", "Folio"])
+
+function nodeTitle(node: any): string | undefined {
+  if (typeof node?.title === "string") return node.title
+  return node?.titles?.find((title: any) => title.lang === "en" && title.primary)?.text
+}
+
+// Node of a complex schema that `title` names: "Pesach Haggadah, Magid" is the
+// Magid node of the Pesach Haggadah index, and the index title alone is its
+// default node
+function findNode(schema: any, indexTitle: string, title: string): any {
+  const path = title === indexTitle ? [] : title.slice(indexTitle.length).replace(/^,\s*/, "").split(/,\s*/)
+  let node = schema
+  for (const part of path) {
+    node = node?.nodes?.find((child: any) => nodeTitle(child) === part)
+    if (!node) return null
+  }
+  while (node?.nodes) node = node.nodes.find((child: any) => child.default) ?? null
+  return node
+}
+
+// Schema of a book's text from its v2 index record. For a book with several
+// parts, `title` picks the part (see findNode); parts that cannot be found
+// keep the default names.
+export function sectionSchemaFromIndex(index: any, title: string = index?.title): SectionSchema {
+  const complex = Boolean(index?.schema?.nodes)
+  const node = complex ? findNode(index.schema, index.title, title) : index?.schema
+  const sectionNames: unknown = node?.sectionNames ?? (complex ? undefined : index?.sectionNames)
+  if (!Array.isArray(sectionNames) || sectionNames.length === 0) return { ...DEFAULT_SECTION_SCHEMA, complex }
+  const names = sectionNames.map(String)
+  const heNames: unknown = node?.heSectionNames ?? index?.heSectionNames
+  const addressTypes: unknown = node?.addressTypes ?? index?.addressTypes
+  return {
+    sectionNames: names,
+    heSectionNames: names.map((name, depth) =>
+      Array.isArray(heNames) && heNames[depth] ? String(heNames[depth]) : HEBREW_SECTION_NAMES[name] || name
+    ),
+    addressTypes: names.map((_, depth) =>
+      Array.isArray(addressTypes) && addressTypes[depth] ? String(addressTypes[depth]) : "Integer"
+    ),
+    lengths: Array.isArray(node?.lengths) ? node.lengths.map(Number) : [],
+    complex,
+  }
+}
+
+export function isFolioAddress(schema: SectionSchema, depth: number): boolean {
+  return FOLIO_ADDRESS_TYPES.has(schema.addressTypes[depth])
+}
+
+// A section's number as written at `depth`: "3" or "ג׳", "2a" or "ב."
+export function formatSectionNumber(
+  schema: SectionSchema,
+  depth: number,
+  section: string | number,
+  language: SectionLanguage
+): string {
+  let value = String(section)
+  // Sefaria counts folio sides in its section arrays: 3 is 2a, 4 is 2b
+  if (isFolioAddress(schema, depth) && /^\d+$/.test(value)) {
+    const side = parseInt(value, 10)
+    value = `${Math.ceil(side / 2)}${side % 2 === 1 ? "a" : "b"}`
+  }
+  return language === "he" ? formatHebrewSection(value) : value
+}
+
+export function sectionName(schema: SectionSchema, depth: number, language: SectionLanguage): string {
+  const names = language === "he" ? schema.heSectionNames : schema.sectionNames
+  return names[depth] ?? names[names.length - 1] ?? ""
+}
+
+// Heading for a section: "Chapter 3", "פרק ג׳", "Daf 2a", "דף ב."
+export function sectionLabel(
+  schema: SectionSchema,
+  depth: number,
+  section: string | number,
+  language: SectionLanguage
+): string {
+  return `${sectionName(schema, depth, language)} ${formatSectionNumber(schema, depth, section, language)}`.trim()
+}
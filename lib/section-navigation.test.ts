@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_SECTION_SCHEMA, type SectionSchema } from "./section-labels"
+import { schemaAdjacentSection, schemaSections } from "./section-navigation"
+
+const genesis: SectionSchema = { ...DEFAULT_SECTION_SCHEMA, lengths: [50, 1533] }
+const berakhot: SectionSchema = {
+  sectionNames: ["Daf", "Line"],
+  heSectionNames: ["דף", "שורה"],
+  addressTypes: ["Talmud", "Integer"],
+  lengths: [127],
+  complex: false,
+}
+
+describe("schemaSections", () => {
+  it("lists numbered sections", () => {
+    const sections = schemaSections(genesis)
+    expect(sections).toHaveLength(50)
+    expect(sections[0]).toBe("1")
+    expect(sections[49]).toBe("50")
+  })
+
+  it("lists dapim from 2a", () => {
+    expect(schemaSections(berakhot).slice(0, 3)).toEqual(["2a", "2b", "3a"])
+    expect(schemaSections(berakhot).at(-1)).toBe("64a")
+  })
+
+  it("is empty without lengths or for parts of complex books", () => {
+    expect(schemaSections(DEFAULT_SECTION_SCHEMA)).toEqual([])
+    expect(schemaSections({ ...genesis, complex: true })).toEqual([])
+  })
+
+  it("agrees with schemaAdjacentSection", () => {
+    const sections = schemaSections(berakhot)
+    sections.slice(0, -1).forEach((section, i) => {
+      expect(schemaAdjacentSection(berakhot, section, "next")).toBe(sections[i + 1])
+    })
+    expect(schemaAdjacentSection(berakhot, sections[sections.length - 1], "next")).toBeNull()
+  })
+})
@@ -0,0 +1,126 @@
+// Which section of a book comes before or after another, for the reader's
+// infinite scroll.
+//
+// Sefaria's text responses carry `next` and `prev` refs, which skip sections
+// with no text and cross into the next book or part of a book (the next
+// tractate, the next node of a complex schema). Until a section has been
+// loaded, its neighbours come from the book's schema: numbered sections run
+// 1..lengths[0], dapim run 2a, 2b, 3a... Parts of complex books are only
+// navigated by Sefaria's refs.
+
+import { isDafSection, normalizeBookTitle, parseRef, sectionNumber, type SefariaRef } from "./ref"
+import { isFolioAddress, sectionSchemaFromIndex, type SectionSchema } from "./section-labels"
+import { sefaria } from "./sefaria-api"
+
+export type NavigationDirection = "next" | "prev"
+
+// Sefaria's refs to the sections around a loaded one
+export type SectionLinks = { next?: string | null; prev?: string | null }
+
+// A neighbouring section of the same book, or a ref into another book or part
+export type AdjacentSection = { section: string } | { ref: SefariaRef }
+
+// First folio side of a Talmud tractate; Sefaria counts 1a as side 1, and
+// tractates start at 2a. Other foliated texts may start at 1a.
+const FIRST_TALMUD_SIDE = 3
+
+// A section as the reader keys its chapters: numbered sections as numbers,
+// dapim ("2a") as strings
+export function readerSection(section: string | number): string | number {
+  const value = String(section)
+  if (isDafSection(value)) return value
+  return sectionNumber(value) ?? value
+}
+
+// Folio side of a daf, counting as Sefaria does: 2a is 3, 2b is 4
+function folioSide(section: string): number {
+  const n = sectionNumber(section) ?? 0
+  return n * 2 - (section.endsWith("a") ? 1 : 0)
+}
+
+function folioSection(side: number): string {
+  return `${Math.ceil(side / 2)}${side % 2 === 1 ? "a" : "b"}`
+}
+
+// Neighbour of a top-level section according to the schema alone; null at
+// either end of the book or when the schema cannot tell
+export function schemaAdjacentSection(
+  schema: SectionSchema,
+  section: string | number,
+  direction: NavigationDirection
+): string | null {
+  if (schema.complex) return null
+  const value = String(section)
+  const count = schema.lengths[0]
+  if (isFolioAddress(schema, 0) || isDafSection(value)) {
+    if (!isDafSection(value)) return null
+    const side = folioSide(value) + (direction === "next" ? 1 : -1)
+    const first = schema.addressTypes[0] === "Folio" ? 1 : FIRST_TALMUD_SIDE
+    if (side < first || (count && side > count)) return null
+    return folioSection(side)
+  }
+  const n = sectionNumber(value)
+  if (n === null) return null
+  const target = direction === "next" ? n + 1 : n - 1
+  if (target < 1 || (count && target > count)) return null
+  return String(target)
+}
+
+// Every top-level section of a book according to its schema, in order; empty
+// when the schema does not give their number or describes a part of a complex
+// book
+export function schemaSections(schema: SectionSchema): string[] {
+  const count = schema.lengths[0]
+  if (schema.complex || !count) return []
+  if (!isFolioAddress(schema, 0)) return Array.from({ length: count }, (_, i) => String(i + 1))
+  const first = schema.addressTypes[0] === "Folio" ? 1 : FIRST_TALMUD_SIDE
+  const sections: string[] = []
+  for (let side = first; side <= count; side++) sections.push(folioSection(side))
+  return sections
+}
+
+// Neighbour of a section of `book`. Sefaria's ref from the loaded section wins
+// over the schema; a null ref marks the end of the text, a missing one (the
+// section is not loaded yet) defers to the schema.
+export function adjacentSection(
+  schema: SectionSchema,
+  book: string,
+  section: string | number,
+  direction: NavigationDirection,
+  links?: SectionLinks
+): AdjacentSection | null {
+  const target = links?.[direction]
+  if (target === undefined) {
+    const adjacent = schemaAdjacentSection(schema, section, direction)
+    return adjacent === null ? null : { section: adjacent }
+  }
+  const ref = target ? parseRef(target) : null
+  if (!ref) return null
+  if (normalizeBookTitle(ref.book) === normalizeBookTitle(book) && ref.sections.length > 0) {
+    return { section: ref.sections[0] }
+  }
+  return { ref }
+}
+
+// Titles whose index may describe `book`, longest first: a part of a complex
+// book ("Pesach Haggadah, Magid") is described by its book's index
+function indexTitles(book: string): string[] {
+  const parts = book.split(/,\s*/)
+  return parts.map((_, i) => parts.slice(0, parts.length - i).join(", "))
+}
+
+// Schema of `book`, or of the part of a complex book it names
+export async function loadSectionSchema(book: string): Promise<SectionSchema> {
+  const title = normalizeBookTitle(book)
+  let lastError: unknown = null
+  for (const candidate of indexTitles(title)) {
+    try {
+      const index = await sefaria.getBookIndex(candidate)
+      if (index?.error) throw new Error(String(index.error))
+      return sectionSchemaFromIndex(index, title)
+    } catch (error) {
+      lastError = error
+    }
+  }
+  throw lastError
+}
@@ -1,3 +1,6 @@
+import { CACHE_TTL, RequestCache, sefariaCache } from "./cache";
+import { getSefariaDataSource } from "./data-source";
+
 export interface SefariaContent {
   title: string;
   heTitle?: string;
@@ -48,165 +51,249 @@ export interface SefariaTextResponse {
   order: number[];
   next?: string;
   prev?: string;
+  // Present when requested with commentary=1 (getTextWithCommentary)
+  commentary?: SefariaCommentary[];
+}
+
+// A comment linked to a text, as returned by the legacy texts API with commentary=1
+export interface SefariaCommentary {
+  ref: string;
+  heRef?: string;
+  sourceRef: string;
+  sourceHeRef?: string;
+  anchorRef: string;
+  anchorVerse?: number;
+  category: string;
+  type: string;
+  index_title?: string;
+  commentator?: string;
+  heCommentator?: string;
+  collectiveTitle?: { en: string; he: string };
+  text: string | string[];
+  he: string | string[];
 }
 
+// A version (witness) of a text as listed by the v3 texts API. Entries in
+// `versions` carry the text itself; `available_versions` lists metadata only.
+export interface SefariaVersion {
+  versionTitle: string;
+  language: string;
+  languageFamilyName?: string;
+  shortVersionTitle?: string;
+  versionSource?: string;
+  versionNotes?: string;
+  direction?: "rtl" | "ltr";
+  priority?: number;
+  text?: string | string[] | string[][];
+}
+
+export interface SefariaVersionsResponse {
+  ref: string;
+  heRef?: string;
+  sections?: Array<number | string>;
+  toSections?: Array<number | string>;
+  versions: SefariaVersion[];
+  available_versions?: SefariaVersion[];
+}
+
+// Cache keys; everything SefariaAPI stores shares the "sefaria:" prefix and is
+// scoped by data source so live responses and fixtures never mix
+const cachePrefix = () => `sefaria:${getSefariaDataSource()}`;
+const CACHE_KEYS = {
+  index: () => `${cachePrefix()}:index`,
+  bookIndex: (title: string) => `${cachePrefix()}:book-index:${title}`,
+  text: (ref: string, lang: string) => `${cachePrefix()}:text:${ref}:${lang}`,
+  textWithCommentary: (ref: string, lang: string, lang2: string) =>
+    `${cachePrefix()}:text-commentary:${ref}:${lang}:${lang2}`,
+  versions: (ref: string) => `${cachePrefix()}:versions:${ref}`,
+  versionText: (ref: string, language: string, versionTitle: string) =>
+    `${cachePrefix()}:version-text:${ref}:${language}:${versionTitle}`,
+};
+
 class SefariaAPI {
-  private baseUrl = "https://www.sefaria.org/api";
-  private cache = new Map<string, any>();
+  // Our own proxy routes (app/api), which forward to Sefaria
+  private baseUrl = "/api";
 
-  async getIndex(): Promise<SefariaContent> {
-    const cacheKey = "sefaria-index";
+  constructor(private cache: RequestCache = sefariaCache) {}
 
-    if (this.cache.has(cacheKey)) {
-      console.log("✅ [SefariaAPI] Cache hit! Returning cached data");
-      return this.cache.get(cacheKey);
+  async getIndex(): Promise<SefariaContent> {
+    try {
+      return await this.cache.fetch(
+        CACHE_KEYS.index(),
+        () => this.fetchIndex(),
+        CACHE_TTL.index
+      );
+    } catch (error) {
+      console.error("❌ [SefariaAPI] Error fetching Sefaria index:", error);
+      throw new Error(
+        `Failed to load library data: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
     }
+  }
 
-    try {
-      console.log("🌐 [SefariaAPI] Fetching index from API...");
-      const response = await fetch(`${this.baseUrl}/index`);
+  private async fetchIndex(): Promise<SefariaContent> {
+    console.log("🌐 [SefariaAPI] Fetching index from API...");
+    const response = await fetch(`${this.baseUrl}/index`);
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
 
-      const rawData = await response.json();
+    const rawData = await response.json();
 
-      // ===== COMPREHENSIVE DATA STRUCTURE LOGGING =====
-      console.log("🔍 [SefariaAPI] ===== RAW API RESPONSE STRUCTURE =====");
-      console.log("📊 [SefariaAPI] Raw data type:", typeof rawData);
-      console.log("📊 [SefariaAPI] Raw data is array:", Array.isArray(rawData));
-      console.log("📊 [SefariaAPI] Raw data keys:", Object.keys(rawData));
-      console.log(
-        "📊 [SefariaAPI] Raw data length:",
-        Array.isArray(rawData) ? rawData.length : "N/A"
-      );
+    // ===== COMPREHENSIVE DATA STRUCTURE LOGGING =====
+    console.log("🔍 [SefariaAPI] ===== RAW API RESPONSE STRUCTURE =====");
+    console.log("📊 [SefariaAPI] Raw data type:", typeof rawData);
+    console.log("📊 [SefariaAPI] Raw data is array:", Array.isArray(rawData));
+    console.log("📊 [SefariaAPI] Raw data keys:", Object.keys(rawData));
+    console.log(
+      "📊 [SefariaAPI] Raw data length:",
+      Array.isArray(rawData) ? rawData.length : "N/A"
+    );
 
-      // Show the first 2000 characters of the raw data
-      console.log("📊 [SefariaAPI] Raw data preview (first 2000 chars):");
-      console.log(JSON.stringify(rawData, null, 2).substring(0, 2000));
-
-      // If there's a body property, analyze it
-      if (rawData && typeof rawData === "object" && "body" in rawData) {
-        console.log("🎯 [SefariaAPI] ===== BODY PROPERTY ANALYSIS =====");
-        const body = rawData.body;
-        console.log("📊 [SefariaAPI] Body type:", typeof body);
-        console.log("📊 [SefariaAPI] Body is array:", Array.isArray(body));
-        console.log("📊 [SefariaAPI] Body keys:", Object.keys(body));
-
-        if (body && typeof body === "object" && !Array.isArray(body)) {
-          console.log(
-            "📊 [SefariaAPI] Body contents length:",
-            body.contents?.length || 0
-          );
-          console.log("📊 [SefariaAPI] Body title:", body.title);
-          console.log("📊 [SefariaAPI] Body category:", body.category);
-          console.log(
-            "📊 [SefariaAPI] Body description:",
-            body.enDesc?.substring(0, 100) + "..."
-          );
-
-          // Show first few contents items
-          if (body.contents && Array.isArray(body.contents)) {
-            console.log("📊 [SefariaAPI] First 3 contents items:");
-            body.contents.slice(0, 3).forEach((item: any, index: number) => {
-              console.log(
-                `  ${index + 1}. ${item.title} (${item.category}) - ${
-                  item.contents?.length || 0
-                } sub-items`
-              );
-            });
-          }
-        }
-      }
+    // Show the first 2000 characters of the raw data
+    console.log("📊 [SefariaAPI] Raw data preview (first 2000 chars):");
+    console.log(JSON.stringify(rawData, null, 2).substring(0, 2000));
+
+    // If there's a body property, analyze it
+    if (rawData && typeof rawData === "object" && "body" in rawData) {
+      console.log("🎯 [SefariaAPI] ===== BODY PROPERTY ANALYSIS =====");
+      const body = rawData.body;
+      console.log("📊 [SefariaAPI] Body type:", typeof body);
+      console.log("📊 [SefariaAPI] Body is array:", Array.isArray(body));
+      console.log("📊 [SefariaAPI] Body keys:", Object.keys(body));
 
-      // Extract the actual data from the body property or use raw data
-      let data: SefariaContent;
-      if (Array.isArray(rawData)) {
-        // If the raw data is an array, wrap it in a synthetic root SefariaContent object
-        data = {
-          title: "Sefaria Library Root",
-          category: "Root",
-          contents: rawData,
-          enDesc: "The root of the Sefaria library index.",
-        };
+      if (body && typeof body === "object" && !Array.isArray(body)) {
+        console.log(
+          "📊 [SefariaAPI] Body contents length:",
+          body.contents?.length || 0
+        );
+        console.log("📊 [SefariaAPI] Body title:", body.title);
+        console.log("📊 [SefariaAPI] Body category:", body.category);
         console.log(
-          "📊 [SefariaAPI] Wrapped raw array data into synthetic root object"
+          "📊 [SefariaAPI] Body description:",
+          body.enDesc?.substring(0, 100) + "..."
         );
-      } else {
-        // Otherwise, use rawData.body if it exists, or rawData itself
-        data = rawData.body || rawData;
-        console.log("📊 [SefariaAPI] Used rawData.body or rawData directly");
+
+        // Show first few contents items
+        if (body.contents && Array.isArray(body.contents)) {
+          console.log("📊 [SefariaAPI] First 3 contents items:");
+          body.contents.slice(0, 3).forEach((item: any, index: number) => {
+            console.log(
+              `  ${index + 1}. ${item.title} (${item.category}) - ${
+                item.contents?.length || 0
+              } sub-items`
+            );
+          });
+        }
       }
+    }
 
-      // ===== FINAL DATA STRUCTURE LOGGING =====
-      console.log("🎯 [SefariaAPI] ===== FINAL EXTRACTED DATA STRUCTURE =====");
-      console.log("📊 [SefariaAPI] Final data type:", typeof data);
-      console.log("📊 [SefariaAPI] Final data keys:", Object.keys(data));
-      console.log("📊 [SefariaAPI] Final data title:", data.title);
-      console.log("📊 [SefariaAPI] Final data category:", data.category);
+    // Extract the actual data from the body property or use raw data
+    let data: SefariaContent;
+    if (Array.isArray(rawData)) {
+      // If the raw data is an array, wrap it in a synthetic root SefariaContent object
+      data = {
+        title: "Sefaria Library Root",
+        category: "Root",
+        contents: rawData,
+        enDesc: "The root of the Sefaria library index.",
+      };
       console.log(
-        "📊 [SefariaAPI] Final data description:",
-        data.enDesc?.substring(0, 100) + "..."
+        "📊 [SefariaAPI] Wrapped raw array data into synthetic root object"
+      );
+    } else {
+      // Otherwise, use rawData.body if it exists, or rawData itself
+      data = rawData.body || rawData;
+      console.log("📊 [SefariaAPI] Used rawData.body or rawData directly");
+    }
+
+    // ===== FINAL DATA STRUCTURE LOGGING =====
+    console.log("🎯 [SefariaAPI] ===== FINAL EXTRACTED DATA STRUCTURE =====");
+    console.log("📊 [SefariaAPI] Final data type:", typeof data);
+    console.log("📊 [SefariaAPI] Final data keys:", Object.keys(data));
+    console.log("📊 [SefariaAPI] Final data title:", data.title);
+    console.log("📊 [SefariaAPI] Final data category:", data.category);
+    console.log(
+      "📊 [SefariaAPI] Final data description:",
+      data.enDesc?.substring(0, 100) + "..."
+    );
+    console.log(
+      "📊 [SefariaAPI] Final data contents length:",
+      data.contents?.length || 0
+    );
+
+    // Show the complete structure if it's not too large
+    if (JSON.stringify(data).length < 10000) {
+      console.log("📊 [SefariaAPI] Complete final data structure:");
+      console.log(JSON.stringify(data, null, 2));
+    } else {
+      console.log(
+        "📊 [SefariaAPI] Final data is large, showing structure only"
       );
       console.log(
-        "📊 [SefariaAPI] Final data contents length:",
-        data.contents?.length || 0
+        "📊 [SefariaAPI] Data size:",
+        JSON.stringify(data).length,
+        "characters"
       );
+    }
 
-      // Show the complete structure if it's not too large
-      if (JSON.stringify(data).length < 10000) {
-        console.log("📊 [SefariaAPI] Complete final data structure:");
-        console.log(JSON.stringify(data, null, 2));
-      } else {
-        console.log(
-          "📊 [SefariaAPI] Final data is large, showing structure only"
-        );
+    // Show sample of contents if available
+    if (data.contents && Array.isArray(data.contents)) {
+      console.log("📊 [SefariaAPI] Sample contents (first 5 items):");
+      data.contents.slice(0, 5).forEach((item: any, index: number) => {
+        console.log(`  ${index + 1}. ${item.title} (${item.category})`);
         console.log(
-          "📊 [SefariaAPI] Data size:",
-          JSON.stringify(data).length,
-          "characters"
+          `     - Description: ${
+            item.enDesc?.substring(0, 50) || "No description"
+          }...`
         );
-      }
+        console.log(`     - Sub-items: ${item.contents?.length || 0}`);
+        console.log(`     - Hebrew title: ${item.heTitle || "None"}`);
+        console.log(`     - Order: ${item.order || "None"}`);
+      });
+    }
 
-      // Show sample of contents if available
-      if (data.contents && Array.isArray(data.contents)) {
-        console.log("📊 [SefariaAPI] Sample contents (first 5 items):");
-        data.contents.slice(0, 5).forEach((item: any, index: number) => {
-          console.log(`  ${index + 1}. ${item.title} (${item.category})`);
-          console.log(
-            `     - Description: ${
-              item.enDesc?.substring(0, 50) || "No description"
-            }...`
-          );
-          console.log(`     - Sub-items: ${item.contents?.length || 0}`);
-          console.log(`     - Hebrew title: ${item.heTitle || "None"}`);
-          console.log(`     - Order: ${item.order || "None"}`);
-        });
-      }
+    console.log("🔍 [SefariaAPI] ===== END DATA STRUCTURE LOGGING =====");
 
-      console.log("🔍 [SefariaAPI] ===== END DATA STRUCTURE LOGGING =====");
+    console.log("✅ [SefariaAPI] Index loaded successfully");
+    return data;
+  }
 
-      // Cache the extracted data
-      this.cache.set(cacheKey, data);
-      console.log("✅ [SefariaAPI] Index loaded and cached successfully");
-      return data;
-    } catch (error) {
-      console.error("❌ [SefariaAPI] Error fetching Sefaria index:", error);
-      throw new Error(
-        `Failed to load library data: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      );
-    }
+  // Index record for a single book (v2 index with content counts and related topics)
+  async getBookIndex(title: string): Promise<any> {
+    console.log("📖 [SefariaAPI] getBookIndex called with title:", title);
+    return this.cache.fetch(
+      CACHE_KEYS.bookIndex(title),
+      async () => {
+        const response = await fetch(
+          `${this.baseUrl}/index/${encodeURIComponent(title)}`
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch book data: ${response.status}`);
+        }
+        return response.json();
+      },
+      CACHE_TTL.bookIndex
+    );
   }
 
   async getText(ref: string, lang = "en"): Promise<SefariaTextResponse> {
     console.log("📖 [SefariaAPI] getText called with ref:", ref, "lang:", lang);
+    return this.cache.fetch(
+      CACHE_KEYS.text(ref, lang),
+      () => this.fetchText(ref, lang),
+      CACHE_TTL.text
+    );
+  }
+
+  private async fetchText(ref: string, lang: string): Promise<SefariaTextResponse> {
     try {
       const url = `${this.baseUrl}/texts/${encodeURIComponent(
         ref
-      )}?lang=${lang}&commentary=0&context=1&pad=0&wrapLinks=1`;
+      )}?api=v1&lang=${lang}&commentary=0&context=1&pad=0&wrapLinks=1`;
       const response = await fetch(url);
 
       if (!response.ok) {
@@ -240,10 +327,22 @@ class SefariaAPI {
     lang2 = "en"
   ): Promise<SefariaTextResponse> {
     console.log("📖 [SefariaAPI] getTextWithCommentary called with ref:", ref);
+    return this.cache.fetch(
+      CACHE_KEYS.textWithCommentary(ref, lang, lang2),
+      () => this.fetchTextWithCommentary(ref, lang, lang2),
+      CACHE_TTL.text
+    );
+  }
+
+  private async fetchTextWithCommentary(
+    ref: string,
+    lang: string,
+    lang2: string
+  ): Promise<SefariaTextResponse> {
     try {
       const url = `${this.baseUrl}/texts/${encodeURIComponent(
         ref
-      )}?lang=${lang}&lang2=${lang2}&commentary=1&context=1&pad=0&wrapLinks=1&wrapNamedEntities=1`;
+      )}?api=v1&lang=${lang}&lang2=${lang2}&commentary=1&context=1&pad=0&wrapLinks=1&wrapNamedEntities=1`;
       const response = await fetch(url);
 
       if (!response.ok) {
@@ -281,6 +380,58 @@ class SefariaAPI {
     }
   }
 
+  // Versions available for a ref, without their text
+  async getVersions(ref: string): Promise<SefariaVersion[]> {
+    return this.cache.fetch(
+      CACHE_KEYS.versions(ref),
+      async () => {
+        const data = await this.fetchVersions(ref, []);
+        return data.available_versions || data.versions.map(({ text, ...version }) => version);
+      },
+      CACHE_TTL.text
+    );
+  }
+
+  // A single version of a ref, selected by language family and versionTitle
+  async getVersionText(
+    ref: string,
+    language: string,
+    versionTitle: string
+  ): Promise<SefariaVersion | null> {
+    return this.cache.fetch(
+      CACHE_KEYS.versionText(ref, language, versionTitle),
+      async () => {
+        const data = await this.fetchVersions(ref, [`${language}|${versionTitle}`]);
+        return data.versions.find((version) => version.versionTitle === versionTitle) || null;
+      },
+      CACHE_TTL.text
+    );
+  }
+
+  private async fetchVersions(ref: string, versions: string[]): Promise<SefariaVersionsResponse> {
+    const query = versions.map((version) => `version=${encodeURIComponent(version)}`).join("&");
+    const response = await fetch(
+      `${this.baseUrl}/texts/${encodeURIComponent(ref)}${query ? `?${query}` : ""}`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to fetch versions: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  // Drop cached data so the next call refetches it
+  async invalidateIndex(): Promise<void> {
+    await this.cache.invalidate(CACHE_KEYS.index());
+  }
+
+  async invalidateBook(title: string): Promise<void> {
+    await this.cache.invalidate(CACHE_KEYS.bookIndex(title));
+  }
+
+  async invalidateAll(): Promise<void> {
+    await this.cache.invalidatePrefix("sefaria:");
+  }
+
   // Helper function to navigate the nested structure
   findCategoryPath(
     data: SefariaContent,
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest"
+import {
+  collectFootnotes,
+  decodeEntities,
+  footnoteText,
+  markNodes,
+  nodesText,
+  numberFootnotes,
+  parseSefariaHtml,
+  type HtmlNode,
+} from "./sefaria-html"
+import type { MarkedSpan } from "./text-anchors"
+
+const text = (value: string): HtmlNode => ({ type: "text", text: value })
+
+function span(id: string, start: number, end: number, quote: string): MarkedSpan {
+  return { id, start, end, quote }
+}
+
+// Marked pieces of a tree as [span id, text] pairs, in reading order
+function marks(nodes: HtmlNode[]): Array<[string, string]> {
+  return nodes.flatMap((node): Array<[string, string]> => {
+    if (node.type === "mark") return [[node.span.id, nodesText(node.children)]]
+    return "children" in node ? marks(node.children) : []
+  })
+}
+
+describe("parseSefariaHtml", () => {
+  it("drops script, style and svg with their content", () => {
+    expect(parseSefariaHtml("a<script>alert(1)</script>b<style>p{}</style>c<svg><circle/></svg>d")).toEqual([
+      text("a"),
+      text("b"),
+      text("c"),
+      text("d"),
+    ])
+  })
+
+  it("drops nested elements of the same name up to the matching close", () => {
+    expect(nodesText(parseSefariaHtml("a<svg><svg><g>x</g></svg>y</svg>b"))).toBe("ab")
+    expect(nodesText(parseSefariaHtml("a<script><script>x</script>y</script>b"))).toBe("ab")
+  })
+
+  it("removes attributes from allowed tags", () => {
+    expect(parseSefariaHtml('<b onclick="steal()" style="color:red">bold</b>')).toEqual([
+      { type: "element", tag: "b", children: [text("bold")] },
+    ])
+  })
+
+  it("unwraps links that are not ref or entity links", () => {
+    expect(parseSefariaHtml('see <a href="javascript:alert(1)">here</a>')).toEqual([text("see "), text("here")])
+    expect(parseSefariaHtml('<div class="x"><p>para</p></div>')).toEqual([
+      { type: "element", tag: "p", children: [text("para")] },
+    ])
+  })
+
+  it("keeps ref links and named entity links", () => {
+    expect(parseSefariaHtml('<a class="refLink" href="/Genesis.1.1" data-ref="Genesis 1:1">Gen. 1:1</a>')).toEqual([
+      { type: "refLink", ref: "Genesis 1:1", children: [text("Gen. 1:1")] },
+    ])
+    expect(parseSefariaHtml('<a class="namedEntityLink" href="/topics/moses" data-slug="moses">Moses</a>')).toEqual([
+      { type: "namedEntity", slug: "moses", children: [text("Moses")] },
+    ])
+  })
+
+  it("pairs a footnote marker with its note across whitespace", () => {
+    const nodes = parseSefariaHtml('word<sup class="footnote-marker">1</sup> <i class="footnote">note</i> more')
+    expect(nodes).toEqual([
+      text("word"),
+      { type: "footnote", marker: "1", content: [text("note")] },
+      text(" "),
+      text(" more"),
+    ])
+  })
+
+  it("keeps nested <i> inside a footnote", () => {
+    const nodes = parseSefariaHtml('said<sup class="footnote-marker">a</sup><i class="footnote">Lit. <i>spoke</i> here.</i> let there be')
+    const footnotes = collectFootnotes(nodes)
+    expect(footnotes).toHaveLength(1)
+    expect(footnotes[0].marker).toBe("a")
+    expect(footnoteText(footnotes[0])).toBe("Lit. spoke here.")
+    expect(nodesText(nodes)).toBe("said let there be")
+  })
+
+  it("keeps a marker without a note as a plain sup", () => {
+    expect(parseSefariaHtml('x<sup class="footnote-marker">1</sup>y')).toEqual([
+      text("x"),
+      { type: "element", tag: "sup", children: [text("1")] },
+      text("y"),
+    ])
+  })
+})
+
+describe("decodeEntities", () => {
+  it("decodes named, decimal and hex entities", () => {
+    expect(decodeEntities("&amp;&lt;&gt;&quot;&apos;")).toBe("&<>\"'")
+    expect(decodeEntities("a&thinsp;b&rlm;&nbsp;")).toBe("a\u2009b\u200f\u00a0")
+    expect(decodeEntities("&#1488;&#x5D1;")).toBe("אב")
+  })
+
+  it("leaves unknown and out-of-range entities alone", () => {
+    expect(decodeEntities("&bogus; &#0; &#x110000;")).toBe("&bogus; &#0; &#x110000;")
+  })
+
+  it("is applied to text and attributes", () => {
+    expect(parseSefariaHtml('<a class="refLink" data-ref="Rashi on Genesis 1:1&amp;2">R&#x27;</a>')).toEqual([
+      { type: "refLink", ref: "Rashi on Genesis 1:1&2", children: [text("R'")] },
+    ])
+  })
+})
+
+describe("markNodes", () => {
+  it("splits a span that crosses elements into one mark per text node", () => {
+    const nodes = parseSefariaHtml("In the <b>beginning God</b> created")
+    const marked = markNodes(nodes, [span("s", 3, 16, "the beginning")])
+    expect(marks(marked)).toEqual([
+      ["s", "the "],
+      ["s", "beginning"],
+    ])
+    expect(nodesText(marked)).toBe(nodesText(nodes))
+  })
+
+  it("lets the shortest span win where spans overlap", () => {
+    const nodes = parseSefariaHtml("abcdefgh")
+    const marked = markNodes(nodes, [span("long", 0, 8, "abcdefgh"), span("short", 2, 4, "cd")])
+    expect(marks(marked)).toEqual([
+      ["long", "ab"],
+      ["short", "cd"],
+      ["long", "efgh"],
+    ])
+  })
+
+  it("skips footnotes and leaves out spans whose quote is gone", () => {
+    const nodes = parseSefariaHtml('ab<sup class="footnote-marker">1</sup><i class="footnote">note</i>cd')
+    expect(marks(markNodes(nodes, [span("s", 1, 3, "bc")]))).toEqual([
+      ["s", "b"],
+      ["s", "c"],
+    ])
+    expect(markNodes(nodes, [span("gone", 0, 2, "zz")])).toEqual(nodes)
+  })
+})
+
+describe("numberFootnotes", () => {
+  it("numbers footnotes across segments", () => {
+    const note = (marker: string, body: string) =>
+      `<sup class="footnote-marker">${marker}</sup><i class="footnote">${body}</i>`
+    expect(numberFootnotes([`a${note("*", "one")}b${note("*", "two")}`, "no notes", `c${note("a", "<i>three</i>")}`])).toEqual([
+      {
+        start: 0,
+        footnotes: [
+          { number: 1, marker: "*", text: "one" },
+          { number: 2, marker: "*", text: "two" },
+        ],
+      },
+      { start: 2, footnotes: [] },
+      { start: 2, footnotes: [{ number: 3, marker: "a", text: "three" }] },
+    ])
+  })
+})
@@ -0,0 +1,285 @@
+// Safe parsing of the HTML Sefaria returns for texts.
+//
+// Sefaria text is HTML with a small vocabulary: <b>, <i>, <small>, <br>,
+// inline footnotes (<sup class="footnote-marker">1</sup><i class="footnote">…</i>),
+// ref links from wrapLinks=1 (<a class="refLink" data-ref="Genesis 1:1">) and
+// named entities from wrapNamedEntities=1 (<a class="namedEntityLink"
+// data-slug="moses">). parseSefariaHtml turns it into a tree of allow-listed
+// nodes that components/SefariaHtml renders as React elements, so no markup
+// from the API reaches the DOM directly. Anything outside the allow-list is
+// unwrapped to its text; scripts, styles and embeds are dropped entirely.
+//
+// The parser works on strings, so the server and the browser build the same
+// tree.
+
+import { resolveSpan, type MarkedSpan } from "./text-anchors"
+
+// Formatting tags kept as they are; every attribute is dropped
+export const ALLOWED_TAGS = ["b", "strong", "i", "em", "u", "small", "big", "sup", "sub", "span", "p"] as const
+
+export type AllowedTag = (typeof ALLOWED_TAGS)[number]
+
+export type HtmlNode =
+  | { type: "text"; text: string }
+  | { type: "break" }
+  | { type: "element"; tag: AllowedTag; children: HtmlNode[] }
+  | { type: "refLink"; ref: string; children: HtmlNode[] }
+  | { type: "namedEntity"; slug: string; children: HtmlNode[] }
+  | { type: "footnote"; marker: string; content: HtmlNode[] }
+  | { type: "mark"; span: MarkedSpan; children: HtmlNode[] }
+
+export type FootnoteNode = Extract<HtmlNode, { type: "footnote" }>
+
+// Elements whose content is dropped along with them
+const DROPPED_TAGS = new Set(["script", "style", "iframe", "object", "embed", "template", "noscript", "svg", "math", "head", "title"])
+const VOID_TAGS = new Set(["br", "hr", "img", "wbr", "input", "meta", "link", "source"])
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  thinsp: "\u2009",
+  ndash: "\u2013",
+  mdash: "\u2014",
+  lsquo: "\u2018",
+  rsquo: "\u2019",
+  ldquo: "\u201c",
+  rdquo: "\u201d",
+  hellip: "\u2026",
+  shy: "\u00ad",
+  zwj: "\u200d",
+  zwnj: "\u200c",
+  lrm: "\u200e",
+  rlm: "\u200f",
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+// Raw parse tree, before the allow-list is applied
+type RawElement = { tag: string; attrs: Record<string, string>; children: RawNode[] }
+type RawNode = string | RawElement
+
+const TOKEN = /<!--[\s\S]*?-->|<\/\s*([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:\s+[^\s=>\/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|[^<]+|</g
+const ATTRIBUTE = /([^\s=>\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const match of Array.from(source.matchAll(ATTRIBUTE))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "")
+  }
+  return attrs
+}
+
+function parseRaw(html: string): RawNode[] {
+  const root: RawElement = { tag: "#root", attrs: {}, children: [] }
+  const stack: RawElement[] = [root]
+  // Inside a dropped element: the tag whose closing tag ends it, and how deeply it is nested
+  let dropping: { tag: string; depth: number } | null = null
+
+  for (const match of Array.from(html.matchAll(TOKEN))) {
+    const [token, closing, opening, attrSource, selfClosing] = match
+    if (token.startsWith("<!--")) continue
+
+    if (dropping) {
+      const tag = (closing || opening || "").toLowerCase()
+      if (tag === dropping.tag) {
+        if (opening && !selfClosing) dropping.depth++
+        if (closing && --dropping.depth === 0) dropping = null
+      }
+      continue
+    }
+
+    if (opening) {
+      const tag = opening.toLowerCase()
+      if (DROPPED_TAGS.has(tag)) {
+        if (!selfClosing) dropping = { tag, depth: 1 }
+        continue
+      }
+      const element: RawElement = { tag, attrs: parseAttributes(attrSource), children: [] }
+      stack[stack.length - 1].children.push(element)
+      if (!selfClosing && !VOID_TAGS.has(tag)) stack.push(element)
+    } else if (closing) {
+      const tag = closing.toLowerCase()
+      // Close the nearest matching element; stray closing tags are ignored
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === tag) {
+          stack.length = i
+          break
+        }
+      }
+    } else {
+      stack[stack.length - 1].children.push(decodeEntities(token))
+    }
+  }
+  return root.children
+}
+
+function hasClass(element: RawElement, name: string): boolean {
+  return (element.attrs.class || "").split(/\s+/).includes(name)
+}
+
+function isWhitespace(node: RawNode | undefined): boolean {
+  return typeof node === "string" && node.trim() === ""
+}
+
+function rawText(nodes: RawNode[]): string {
+  return nodes.map(node => (typeof node === "string" ? node : rawText(node.children))).join("")
+}
+
+function sanitize(nodes: RawNode[]): HtmlNode[] {
+  const out: HtmlNode[] = []
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index]
+    if (typeof node === "string") {
+      out.push({ type: "text", text: node })
+      continue
+    }
+
+    if (node.tag === "br") {
+      out.push({ type: "break" })
+    } else if (node.tag === "sup" && hasClass(node, "footnote-marker")) {
+      // The note follows its marker, sometimes after whitespace
+      let next = index + 1
+      while (isWhitespace(nodes[next])) next++
+      const note = nodes[next]
+      if (typeof note !== "string" && note?.tag === "i" && hasClass(note, "footnote")) {
+        out.push({ type: "footnote", marker: rawText(node.children).trim(), content: sanitize(note.children) })
+        // Whitespace between the two is text like any other
+        for (const space of nodes.slice(index + 1, next)) out.push({ type: "text", text: space as string })
+        index = next
+      } else {
+        out.push({ type: "element", tag: "sup", children: sanitize(node.children) })
+      }
+    } else if (node.tag === "i" && hasClass(node, "footnote")) {
+      out.push({ type: "footnote", marker: "*", content: sanitize(node.children) })
+    } else if (node.tag === "a" && node.attrs["data-ref"] && hasClass(node, "refLink")) {
+      out.push({ type: "refLink", ref: node.attrs["data-ref"], children: sanitize(node.children) })
+    } else if (node.tag === "a" && node.attrs["data-slug"] && hasClass(node, "namedEntityLink")) {
+      out.push({ type: "namedEntity", slug: node.attrs["data-slug"], children: sanitize(node.children) })
+    } else if ((ALLOWED_TAGS as readonly string[]).includes(node.tag)) {
+      out.push({ type: "element", tag: node.tag as AllowedTag, children: sanitize(node.children) })
+    } else {
+      // Unknown or unsafe element: keep its content only
+      out.push(...sanitize(node.children))
+    }
+  }
+  return out
+}
+
+export function parseSefariaHtml(html: string): HtmlNode[] {
+  return html ? sanitize(parseRaw(html)) : []
+}
+
+function childrenOf(node: HtmlNode): HtmlNode[] | null {
+  return "children" in node ? node.children : null
+}
+
+function joinText(nodes: HtmlNode[], lineBreak: string): string {
+  return nodes
+    .map(node => {
+      if (node.type === "text") return node.text
+      if (node.type === "break") return lineBreak
+      const children = childrenOf(node)
+      return children ? joinText(children, lineBreak) : ""
+    })
+    .join("")
+}
+
+// Anchor text of a tree: its text without footnotes, as in text-anchors
+export function nodesText(nodes: HtmlNode[]): string {
+  return joinText(nodes, "")
+}
+
+// Readable text of a tree: footnotes left out, line breaks read as spaces and
+// whitespace collapsed
+export function plainText(nodes: HtmlNode[]): string {
+  return joinText(nodes, " ").replace(/\s+/g, " ").trim()
+}
+
+// Plain text of a footnote's content
+export function footnoteText(footnote: FootnoteNode): string {
+  return plainText(footnote.content)
+}
+
+// Footnotes of a tree in reading order
+export function collectFootnotes(nodes: HtmlNode[]): FootnoteNode[] {
+  return nodes.flatMap(node => {
+    if (node.type === "footnote") return [node]
+    const children = childrenOf(node)
+    return children ? collectFootnotes(children) : []
+  })
+}
+
+// A footnote numbered within a run of segments, e.g. a chapter
+export type NumberedFootnote = {
+  number: number
+  marker: string // The marker Sefaria gave it, often "*" or a letter
+  text: string
+}
+
+// Footnotes of consecutive segments, numbered from 1 across all of them. Each
+// segment gets the number its first footnote follows and its own footnotes.
+export function numberFootnotes(htmls: string[]): Array<{ start: number; footnotes: NumberedFootnote[] }> {
+  let count = 0
+  return htmls.map(html => {
+    const start = count
+    const footnotes = collectFootnotes(parseSefariaHtml(html)).map(footnote => ({
+      number: ++count,
+      marker: footnote.marker,
+      text: footnoteText(footnote),
+    }))
+    return { start, footnotes }
+  })
+}
+
+// The tree with every span of its anchor text wrapped in mark nodes. A span
+// that crosses elements is split into one mark per text node; where spans
+// overlap, the shortest one wins. Spans whose quote no longer occurs are left out.
+export function markNodes(nodes: HtmlNode[], spans: MarkedSpan[]): HtmlNode[] {
+  if (spans.length === 0) return nodes
+  const text = nodesText(nodes)
+  const resolved = spans
+    .map(span => ({ span, at: resolveSpan(text, span) }))
+    .filter((entry): entry is { span: MarkedSpan; at: { start: number; end: number } } => entry.at !== null)
+  if (resolved.length === 0) return nodes
+
+  let offset = 0
+  const mark = (list: HtmlNode[]): HtmlNode[] =>
+    list.flatMap((node): HtmlNode[] => {
+      if (node.type === "footnote" || node.type === "break") return [node]
+      if (node.type !== "text") return [{ ...node, children: mark(node.children) }]
+
+      const nodeStart = offset
+      const nodeEnd = offset + node.text.length
+      offset = nodeEnd
+      const overlapping = resolved.filter(({ at }) => at.start < nodeEnd && at.end > nodeStart)
+      if (overlapping.length === 0) return [node]
+
+      const cuts = new Set([nodeStart, nodeEnd])
+      for (const { at } of overlapping) {
+        cuts.add(Math.max(at.start, nodeStart))
+        cuts.add(Math.min(at.end, nodeEnd))
+      }
+      const points = Array.from(cuts).sort((a, b) => a - b)
+      return points.slice(0, -1).map((from, i): HtmlNode => {
+        const to = points[i + 1]
+        const piece: HtmlNode = { type: "text", text: node.text.slice(from - nodeStart, to - nodeStart) }
+        const covering = overlapping
+          .filter(({ at }) => at.start <= from && at.end >= to)
+          .sort((a, b) => (a.at.end - a.at.start) - (b.at.end - b.at.start))[0]
+        return covering ? { type: "mark", span: covering.span, children: [piece] } : piece
+      })
+    })
+  return mark(nodes)
+}
@@ -0,0 +1,111 @@
+// Server side of the Sefaria proxy used by the route handlers in app/api.
+//
+// Requests go to the live API or the fixture bundle (see lib/data-source.ts),
+// are normalized and cached in process memory, and failures are reported with
+// the shared ApiError shape so clients never parse Sefaria's own error formats.
+
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { NextResponse } from "next/server"
+import { ApiError, errorResponse } from "./api-error"
+import { MemoryCacheBackend, RequestCache } from "./cache"
+import { FIXTURE_DIR, fixtureSegments, getSefariaDataSource, sefariaApiUrl } from "./data-source"
+
+// Server-side TTLs, in milliseconds
+export const PROXY_TTL = {
+  index: 24 * 60 * 60 * 1000,
+  bookIndex: 24 * 60 * 60 * 1000,
+  text: 60 * 60 * 1000,
+  links: 60 * 60 * 1000,
+  related: 60 * 60 * 1000,
+  calendars: 10 * 60 * 1000,
+  search: 10 * 60 * 1000,
+}
+
+// Most responses kept in process memory at once
+const SERVER_CACHE_ENTRIES = 500
+
+const serverCache = new RequestCache(new MemoryCacheBackend(SERVER_CACHE_ENTRIES))
+
+// Sefaria answers some bad requests with 200 and `{ error: "..." }`, and a few
+// endpoints wrap their payload in `body`
+function normalize(data: any): any {
+  if (data && !Array.isArray(data) && typeof data.error === "string") {
+    throw new ApiError(404, data.error)
+  }
+  if (data && !Array.isArray(data) && data.body && typeof data.body === "object") {
+    return data.body
+  }
+  return data
+}
+
+async function loadFixture(endpoint: string): Promise<any> {
+  const root = path.join(process.cwd(), ...FIXTURE_DIR)
+  const segments = fixtureSegments(endpoint)
+  const file = segments && path.resolve(root, ...segments)
+  if (!file || !file.startsWith(root + path.sep)) {
+    throw new ApiError(400, `Invalid fixture path ${endpoint.split("?")[0]}`)
+  }
+  try {
+    return JSON.parse(await readFile(file, "utf8"))
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      throw new ApiError(404, `No fixture for ${endpoint.split("?")[0]}`)
+    }
+    throw error
+  }
+}
+
+// `body`, when given, is sent as a JSON POST (the search API takes its query that way)
+async function loadLive(endpoint: string, body?: unknown): Promise<any> {
+  let response: Response
+  try {
+    response = await fetch(
+      sefariaApiUrl(endpoint),
+      body === undefined
+        ? { cache: "no-store" }
+        : { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body), cache: "no-store" }
+    )
+  } catch (error) {
+    throw new ApiError(502, `Sefaria unreachable: ${error instanceof Error ? error.message : "network error"}`)
+  }
+  if (!response.ok) {
+    // Pass client errors through, report upstream failures as a bad gateway
+    const status = response.status < 500 ? response.status : 502
+    throw new ApiError(status, `Sefaria responded with ${response.status}`)
+  }
+  return response.json()
+}
+
+// Fetch an endpoint such as "v3/texts/Genesis.1?version=hebrew" through the
+// cache; with a `body`, POST it as JSON
+export async function fetchSefaria<T = any>(endpoint: string, ttl: number, body?: unknown): Promise<T> {
+  const source = getSefariaDataSource()
+  return serverCache.fetch(
+    body === undefined ? `${source}:${endpoint}` : `${source}:${endpoint}:${JSON.stringify(body)}`,
+    async () => normalize(source === "fixtures" ? await loadFixture(endpoint) : await loadLive(endpoint, body)),
+    ttl
+  )
+}
+
+// Query string forwarded to Sefaria, sorted so equal requests share a cache entry
+export function forwardedQuery(searchParams: URLSearchParams, omit: string[] = []): string {
+  const entries = Array.from(searchParams.entries())
+    .filter(([key]) => !omit.includes(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+  if (entries.length === 0) return ""
+  return "?" + entries.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join("&")
+}
+
+// Run a proxied request and wrap the outcome in a JSON response
+export async function proxySefaria(endpoint: string, ttl: number): Promise<NextResponse> {
+  try {
+    const data = await fetchSefaria(endpoint, ttl)
+    const maxAge = Math.floor(ttl / 1000)
+    return NextResponse.json(data, {
+      headers: { "Cache-Control": `public, s-maxage=${maxAge}, stale-while-revalidate=${maxAge}` },
+    })
+  } catch (error) {
+    return errorResponse(error, "[sefaria-proxy]")
+  }
+}
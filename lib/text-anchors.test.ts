@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest"
+import { resolveSpan } from "./text-anchors"
+
+describe("resolveSpan", () => {
+  const text = "and God said, let there be light; and there was light"
+
+  it("keeps the offsets while the quote still matches", () => {
+    expect(resolveSpan(text, { start: 4, end: 8, quote: "God " })).toEqual({ start: 4, end: 8 })
+  })
+
+  it("re-anchors to the occurrence nearest the old offsets", () => {
+    // "light" occurs at 27 and 48; offsets near the end pick the second
+    expect(resolveSpan(text, { start: 45, end: 50, quote: "light" })).toEqual({ start: 48, end: 53 })
+    expect(resolveSpan(text, { start: 20, end: 25, quote: "light" })).toEqual({ start: 27, end: 32 })
+  })
+
+  it("finds a quote whose text moved", () => {
+    expect(resolveSpan(`Then ${text}`, { start: 4, end: 8, quote: "God " })).toEqual({ start: 9, end: 13 })
+  })
+
+  it("returns null when the quote no longer occurs", () => {
+    expect(resolveSpan(text, { start: 4, end: 8, quote: "Lord" })).toBeNull()
+  })
+})
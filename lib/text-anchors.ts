@@ -0,0 +1,90 @@
+// Character anchors inside verse HTML.
+//
+// Sefaria verse text is HTML: formatting tags, entities and inline footnotes
+// (<sup class="footnote-marker"> followed by <i class="footnote">). Anchors are
+// offsets into the verse's *anchor text*: the text content of that HTML with
+// footnotes left out. They are the same whether computed from the source
+// string (nodesText in sefaria-html) or from the rendered DOM (anchorText
+// here), and do not move when footnotes are shown, hidden or reflowed.
+
+export type TextSpan = {
+  start: number
+  end: number
+  quote: string // The anchored text, used to re-anchor when the offsets no longer match
+}
+
+// A span to mark up when rendering (markNodes in sefaria-html), with the
+// attributes of its <mark>
+export type MarkedSpan = TextSpan & {
+  id: string
+  className?: string
+  color?: string
+  title?: string
+}
+
+const SKIPPED_CLASSES = ["footnote", "footnote-marker"]
+
+function isSkipped(element: Element): boolean {
+  return SKIPPED_CLASSES.some(name => element.classList.contains(name))
+}
+
+// Text nodes of `root` that count towards anchor offsets, in document order
+function anchorTextNodes(root: Node): Text[] {
+  const nodes: Text[] = []
+  const walk = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE) nodes.push(child as Text)
+      else if (child.nodeType === Node.ELEMENT_NODE && !isSkipped(child as Element)) walk(child)
+    }
+  }
+  walk(root)
+  return nodes
+}
+
+export function anchorText(root: Node): string {
+  return anchorTextNodes(root).map(node => node.data).join("")
+}
+
+// Anchor offset of a DOM position (container + offset, as in a Range) within
+// `root`. Positions inside a footnote resolve to the footnote's place in the text.
+function offsetOf(root: Node, container: Node, offset: number): number {
+  const position = document.createRange()
+  position.setStart(container, offset)
+  let total = 0
+  for (const node of anchorTextNodes(root)) {
+    if (node === container) return total + offset
+    // Nodes entirely before the position count in full
+    const nodeRange = document.createRange()
+    nodeRange.selectNodeContents(node)
+    if (nodeRange.compareBoundaryPoints(Range.END_TO_START, position) > 0) break
+    total += node.data.length
+  }
+  return total
+}
+
+// The current selection as a span of `container`'s anchor text, or null when
+// it is empty or not entirely inside `container`
+export function selectionOffsets(container: HTMLElement): TextSpan | null {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null
+  const range = selection.getRangeAt(0)
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null
+
+  const start = offsetOf(container, range.startContainer, range.startOffset)
+  const end = offsetOf(container, range.endContainer, range.endOffset)
+  if (end <= start) return null
+  return { start, end, quote: anchorText(container).slice(start, end) }
+}
+
+// Where `span` falls in `text`: at its offsets when the quote still matches,
+// otherwise at the occurrence of the quote nearest to them. Null when the
+// quote no longer occurs (e.g. the text was switched to another version).
+export function resolveSpan(text: string, span: TextSpan): { start: number; end: number } | null {
+  if (text.slice(span.start, span.end) === span.quote) return { start: span.start, end: span.end }
+  if (!span.quote) return null
+  let best = -1
+  for (let at = text.indexOf(span.quote); at !== -1; at = text.indexOf(span.quote, at + 1)) {
+    if (best === -1 || Math.abs(at - span.start) < Math.abs(best - span.start)) best = at
+  }
+  return best === -1 ? null : { start: best, end: best + span.quote.length }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { diffWords } from "./text-diff"
+
+// Kinds of the tokens that differ, with the words they compare
+function variants(base: string, text: string) {
+  return diffWords(base, text)
+    .filter(token => token.kind !== "equal")
+    .map(token => [token.kind, token.base, token.text])
+}
+
+describe("diffWords", () => {
+  it("aligns around an inserted word", () => {
+    expect(variants("בראשית ברא אלהים", "בראשית ברא את אלהים")).toEqual([["insertion", undefined, "את"]])
+  })
+
+  it("ignores nikkud and cantillation", () => {
+    expect(variants("בְּרֵאשִׁ֖ית בָּרָ֣א", "בראשית ברא")).toEqual([])
+  })
+
+  it("treats doubled vav and abbreviation marks as orthographic", () => {
+    expect(variants("מצוה רש״י", "מצווה רשי")).toEqual([
+      ["orthographic", "מצוה", "מצווה"],
+      ["orthographic", "רש״י", "רשי"],
+    ])
+  })
+
+  it("treats a pointed mater lectionis as orthographic", () => {
+    expect(variants("וַיֹּאמֶר שָׁלֹם לָכֶם", "ויאמר שלום לכם")).toEqual([["orthographic", "שָׁלֹם", "שלום"]])
+  })
+
+  it("keeps words that differ by vav or yod lexical", () => {
+    expect(variants("אל ביתו", "אל בתו")).toEqual([["lexical", "ביתו", "בתו"]])
+    expect(variants("ויאמר איש", "ויאמר אש")).toEqual([["lexical", "איש", "אש"]])
+    expect(variants("בַּיִת גדול", "בת גדול")).toEqual([["lexical", "בַּיִת", "בת"]])
+  })
+
+  it("marks moved words as transpositions", () => {
+    expect(variants("אחד שנים שלשה", "שנים שלשה אחד").map(([kind]) => kind)).toEqual([
+      "transposition",
+      "transposition",
+    ])
+  })
+})
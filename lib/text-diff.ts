@@ -0,0 +1,201 @@
+// Word-level alignment of two witnesses of a text.
+//
+// Words are aligned with a longest-common-subsequence pass over normalized
+// forms, so one added word shows up as one insertion instead of shifting every
+// word after it. Normalization knows about Hebrew: nikkud and cantillation are
+// ignored, and ktiv male/haser spellings, final letters and abbreviation marks
+// (geresh, gershayim) count as orthographic variants rather than different
+// words. Words that differ by an added vav or yod are only ktiv variants when
+// the pointing shows a mater lectionis (see isKtivVariant); unpointed, ביתו and
+// בתו stay different words. Each difference is classified as
+//
+//   orthographic   same word, different spelling
+//   lexical        a different word in the same place
+//   insertion      only in the witness
+//   deletion       only in the base text
+//   transposition  the same word at a different position
+
+import { isKtivVariant, spellingKey, stripMarks } from "./hebrew"
+
+export type DiffKind = "equal" | "orthographic" | "lexical" | "insertion" | "deletion" | "transposition"
+export type VariantKind = Exclude<DiffKind, "equal">
+
+// Character-level detail of a lexical variant
+export type CharDiffPart = {
+  type: "equal" | "insert" | "delete"
+  text: string
+}
+
+export type DiffToken = {
+  kind: DiffKind
+  base?: string // Word in the base text; absent for insertions
+  text?: string // Word in the witness; absent for deletions
+  chars?: CharDiffPart[]
+}
+
+export type DiffOptions = {
+  // Refine lexical variants with a character-level diff (default true)
+  refineCharacters?: boolean
+}
+
+// "linguistic" shows every variant, spelling included; "semantic" shows only
+// differences that can change the meaning
+export type HighlightMode = "linguistic" | "semantic"
+
+export const HIGHLIGHTED_KINDS: Record<HighlightMode, VariantKind[]> = {
+  linguistic: ["orthographic", "lexical", "insertion", "deletion", "transposition"],
+  semantic: ["lexical", "insertion", "deletion", "transposition"],
+}
+
+export const DIFF_KIND_STYLES: Record<VariantKind, { label: string; className: string }> = {
+  orthographic: { label: "Orthographic", className: "bg-sky-100 text-sky-800 underline decoration-dotted" },
+  lexical: { label: "Lexical", className: "bg-yellow-200 text-yellow-800" },
+  insertion: { label: "Insertion", className: "bg-green-200 text-green-800" },
+  deletion: { label: "Deletion", className: "line-through bg-red-200 text-red-800" },
+  transposition: { label: "Transposition", className: "bg-purple-200 text-purple-800" },
+}
+
+// Includes the paseq, sof pasuq and nun hafukha, which stripMarks keeps
+const PUNCTUATION = /[.,:;!?()[\]{}\u2018\u201C\u201D\u05C0\u05C3\u05C6-]/g
+
+// Surface form used to decide whether two words are identical; abbreviation
+// marks are kept, so רש״י and רשי are orthographic variants
+function surface(word: string): string {
+  return stripMarks(word).replace(PUNCTUATION, "").toLowerCase()
+}
+
+// Key under which spelling variants of a word collide (see spellingKey)
+function wordKey(word: string): string {
+  return spellingKey(surface(word))
+}
+
+// Words of a text; the maqaf joins words that are compared separately
+export function tokenize(text: string): string[] {
+  return text.split(/[\s\u05BE]+/).filter(word => surface(word) !== "")
+}
+
+// Pairs of indexes [i, j] where a[i] and b[j] are aligned, in order
+function longestCommonSubsequence<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Array<[number, number]> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equals(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const pairs: Array<[number, number]> = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (equals(a[i], b[j])) {
+      pairs.push([i, j])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return pairs
+}
+
+export function diffCharacters(base: string, text: string): CharDiffPart[] {
+  const a = Array.from(base)
+  const b = Array.from(text)
+  const parts: CharDiffPart[] = []
+  const push = (type: CharDiffPart["type"], value: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) last.text += value
+    else parts.push({ type, text: value })
+  }
+
+  let i = 0
+  let j = 0
+  for (const [pi, pj] of longestCommonSubsequence(a, b, (x, y) => x === y)) {
+    while (i < pi) push("delete", a[i++])
+    while (j < pj) push("insert", b[j++])
+    push("equal", a[i])
+    i++
+    j++
+  }
+  while (i < a.length) push("delete", a[i++])
+  while (j < b.length) push("insert", b[j++])
+  return parts
+}
+
+// Tokens describing how `text` differs from `base`, in witness order with
+// deletions placed where the base word would have been
+export function diffWords(base: string, text: string, options: DiffOptions = {}): DiffToken[] {
+  const { refineCharacters = true } = options
+  const baseWords = tokenize(base)
+  const words = tokenize(text)
+  const baseKeys = baseWords.map(wordKey)
+  const keys = words.map(wordKey)
+
+  const tokens: DiffToken[] = []
+  // Unmatched words between two aligned words are paired up as variants;
+  // whatever is left over is an insertion or deletion
+  const flushGap = (fromBase: number, toBase: number, fromText: number, toText: number) => {
+    const removed = baseWords.slice(fromBase, toBase)
+    const added = words.slice(fromText, toText)
+    const paired = Math.min(removed.length, added.length)
+    for (let k = 0; k < paired; k++) {
+      const ktiv = isKtivVariant(removed[k].replace(PUNCTUATION, ""), added[k].replace(PUNCTUATION, ""))
+      const token: DiffToken = { kind: ktiv ? "orthographic" : "lexical", base: removed[k], text: added[k] }
+      if (!ktiv && refineCharacters) token.chars = diffCharacters(surface(removed[k]), surface(added[k]))
+      tokens.push(token)
+    }
+    for (const word of removed.slice(paired)) tokens.push({ kind: "deletion", base: word })
+    for (const word of added.slice(paired)) tokens.push({ kind: "insertion", text: word })
+  }
+
+  let i = 0
+  let j = 0
+  for (const [pi, pj] of longestCommonSubsequence(baseKeys, keys, (x, y) => x === y)) {
+    flushGap(i, pi, j, pj)
+    const kind = surface(baseWords[pi]) === surface(words[pj]) ? "equal" : "orthographic"
+    tokens.push({ kind, base: baseWords[pi], text: words[pj] })
+    i = pi + 1
+    j = pj + 1
+  }
+  flushGap(i, baseWords.length, j, words.length)
+
+  markTranspositions(tokens)
+  return tokens
+}
+
+// A word deleted in one place and inserted in another has moved
+function markTranspositions(tokens: DiffToken[]) {
+  const deletions = tokens.filter(token => token.kind === "deletion")
+  for (const token of tokens) {
+    if (token.kind !== "insertion") continue
+    const index = deletions.findIndex(deletion => wordKey(deletion.base!) === wordKey(token.text!))
+    if (index === -1) continue
+    deletions[index].kind = "transposition"
+    token.kind = "transposition"
+    deletions.splice(index, 1)
+  }
+}
+
+// Whether a token is highlighted in the given mode
+export function isHighlighted(token: DiffToken, mode: HighlightMode): token is DiffToken & { kind: VariantKind } {
+  return token.kind !== "equal" && HIGHLIGHTED_KINDS[mode].includes(token.kind)
+}
+
+// Share of tokens highlighted in `mode`, from 0 (identical) to 1, for heatmaps
+export function variantRatio(tokens: DiffToken[], mode: HighlightMode): number {
+  if (tokens.length === 0) return 0
+  return tokens.filter(token => isHighlighted(token, mode)).length / tokens.length
+}
+
+// Counts per kind, for summaries
+export function summarizeDiff(tokens: DiffToken[]): Record<DiffKind, number> {
+  const counts: Record<DiffKind, number> = {
+    equal: 0, orthographic: 0, lexical: 0, insertion: 0, deletion: 0, transposition: 0,
+  }
+  for (const token of tokens) counts[token.kind]++
+  return counts
+}
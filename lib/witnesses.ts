@@ -0,0 +1,124 @@
+// Manuscript witnesses for the Textual Topology Engine: the versions Sefaria
+// holds for a ref, split into segments and aligned for side-by-side reading.
+
+import { sefaria, type SefariaVersion } from "./sefaria-api"
+import { collectFootnotes, footnoteText, parseSefariaHtml, plainText } from "./sefaria-html"
+
+export type WitnessInfo = {
+  versionTitle: string
+  language: string // Language family used to request the version, e.g. "hebrew"
+  label: string
+  source?: string
+  notes?: string
+  direction: "rtl" | "ltr"
+}
+
+export type WitnessFootnote = {
+  id: string
+  text: string
+}
+
+export type WitnessSegment = {
+  id: number // 1-based position in the ref, e.g. the verse number
+  ref: string
+  text: string
+  footnotes: WitnessFootnote[]
+}
+
+export type Witness = WitnessInfo & {
+  segments: WitnessSegment[]
+}
+
+// One row of two witnesses read side by side; either side may be missing
+// when a witness lacks the segment
+export type AlignedSegment = {
+  id: number
+  ref: string
+  primary?: WitnessSegment
+  alternate?: WitnessSegment
+}
+
+// Plain text of a segment with Sefaria's inline footnotes pulled out
+function parseSegment(html: string, id: number, ref: string): WitnessSegment {
+  const nodes = parseSefariaHtml(html)
+  const footnotes = collectFootnotes(nodes).map((footnote, index) => ({
+    id: `${id}.${footnote.marker || index + 1}`,
+    text: footnoteText(footnote),
+  }))
+  return { id, ref: `${ref}:${id}`, text: plainText(nodes), footnotes }
+}
+
+function toWitnessInfo(version: SefariaVersion): WitnessInfo {
+  const language = version.languageFamilyName || version.language
+  return {
+    versionTitle: version.versionTitle,
+    language,
+    label: version.shortVersionTitle || version.versionTitle,
+    source: version.versionSource,
+    notes: version.versionNotes ? plainText(parseSefariaHtml(version.versionNotes)) : undefined,
+    direction: version.direction || (version.language === "he" || language === "hebrew" ? "rtl" : "ltr"),
+  }
+}
+
+// Versions available for `ref`, Hebrew witnesses first
+export async function fetchWitnessList(ref: string): Promise<WitnessInfo[]> {
+  const versions = await sefaria.getVersions(ref)
+  return versions
+    .map(toWitnessInfo)
+    .sort((a, b) => Number(b.direction === "rtl") - Number(a.direction === "rtl"))
+}
+
+// Text of one witness for `ref`, split into segments
+export async function fetchWitness(ref: string, info: WitnessInfo): Promise<Witness> {
+  const version = await sefaria.getVersionText(ref, info.language, info.versionTitle)
+  if (!version) throw new Error(`${info.versionTitle} has no text for ${ref}`)
+
+  const text = version.text ?? []
+  const segments = (Array.isArray(text) ? text : [text])
+    .map((segment, index) => parseSegment(Array.isArray(segment) ? segment.join(" ") : segment, index + 1, ref))
+    .filter(segment => segment.text || segment.footnotes.length > 0)
+  return { ...info, segments }
+}
+
+// Pair up the segments of two witnesses by position. Witnesses often differ in
+// which segments they contain, so every segment of either one gets a row.
+export function alignWitnesses(primary: Witness, alternate?: Witness | null): AlignedSegment[] {
+  const rows = new Map<number, AlignedSegment>()
+  for (const segment of primary.segments) {
+    rows.set(segment.id, { id: segment.id, ref: segment.ref, primary: segment })
+  }
+  for (const segment of alternate?.segments || []) {
+    const row = rows.get(segment.id)
+    if (row) row.alternate = segment
+    else rows.set(segment.id, { id: segment.id, ref: segment.ref, alternate: segment })
+  }
+  return Array.from(rows.values()).sort((a, b) => a.id - b.id)
+}
+
+// One row of a synoptic view: the segment as read by each witness, in the
+// order the witnesses were given; undefined where a witness lacks it
+export type SynopticRow = {
+  id: number
+  ref: string
+  readings: Array<WitnessSegment | undefined>
+}
+
+// Synoptic witnesses are limited to what fits side by side
+export const MIN_SYNOPTIC_WITNESSES = 3
+export const MAX_SYNOPTIC_WITNESSES = 6
+
+// Rows for several witnesses, aligned by segment like alignWitnesses
+export function alignSynoptic(witnesses: Witness[]): SynopticRow[] {
+  const rows = new Map<number, SynopticRow>()
+  witnesses.forEach((witness, column) => {
+    for (const segment of witness.segments) {
+      let row = rows.get(segment.id)
+      if (!row) {
+        row = { id: segment.id, ref: segment.ref, readings: new Array(witnesses.length).fill(undefined) }
+        rows.set(segment.id, row)
+      }
+      row.readings[column] = segment
+    }
+  })
+  return Array.from(rows.values()).sort((a, b) => a.id - b.id)
+}
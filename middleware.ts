@@ -1,10 +1,26 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { formatRef, parseRef, parseRefPath, refToPath } from '@/lib/ref'
 
-function normalizeBookParam(raw: string): string {
-  // Keep incoming slug as-is; Sefaria API expects title, so try to de-slug for fetching only
-  // Only decode URI encoding and convert dashes to spaces, but keep original casing
-  return decodeURIComponent(raw).replace(/-/g, ' ')
+// Book title -> top-level category (null when the title is not a book), kept for
+// the lifetime of the middleware instance so repeat visits skip the lookup
+const bookCategories = new Map<string, string | null>()
+const MAX_CACHED_TITLES = 1000
+
+async function lookupCategory(req: NextRequest, title: string): Promise<string | null> {
+  if (bookCategories.has(title)) return bookCategories.get(title) ?? null
+  // Our own proxy route caches the index server-side
+  if (bookCategories.size >= MAX_CACHED_TITLES) bookCategories.clear()
+  const res = await fetch(new URL(`/api/index/${encodeURIComponent(title)}`, req.nextUrl.origin))
+  if (!res.ok) {
+    // Only remember definite misses; transient failures are retried next time
+    if (res.status === 404) bookCategories.set(title, null)
+    return null
+  }
+  const data = await res.json()
+  const category = String((Array.isArray(data?.categories) ? data.categories[0] : data?.category) || 'texts')
+  bookCategories.set(title, category)
+  return category
 }
 
 export async function middleware(req: NextRequest) {
@@ -24,89 +40,43 @@ export async function middleware(req: NextRequest) {
     '/login',
     '/signup',
     '/calendars',
+    '/about',
+    '/explore',
+    '/search',
   ])
   if (RESERVED_TOP_LEVEL.has(pathname.toLowerCase())) {
     return NextResponse.next()
   }
 
-  // Redirect old long URLs to new short ones
-  const oldChapterMatch = pathname.match(/^\/texts\/([^\/]+)\/([^\/]+)\/(\d+)/i)
-  if (oldChapterMatch) {
-    const [, , book, chapter] = oldChapterMatch
-    const url = req.nextUrl.clone()
-    url.pathname = `/${book}.${chapter}`
-    return NextResponse.redirect(url, 308)
-  }
-
-  const oldBookMatch = pathname.match(/^\/texts\/([^\/]+)\/([^\/]+)\/?$/i)
-  if (oldBookMatch) {
-    const [, , book] = oldBookMatch
-    const url = req.nextUrl.clone()
-    url.pathname = `/${book}`
-    return NextResponse.redirect(url, 308)
-  }
-
-  // Rewrite short URLs to existing pages (URL stays short)
-  // Pattern: /Book
-  const bookOnlyMatch = pathname.match(/^\/([^\/.]+)\/?$/)
-  if (bookOnlyMatch) {
-    const bookSlug = bookOnlyMatch[1]
-    if (RESERVED_TOP_LEVEL.has('/' + bookSlug)) {
-      return NextResponse.next()
+  // Redirect old long URLs to new short ones:
+  // /texts/cat/book, /texts/cat/book/chapter and /texts/cat/book/chapter/verse
+  if (/^\/texts\/[^\/]+\/[^\/]+(\/[^\/]+){0,2}\/?$/i.test(pathname)) {
+    const ref = parseRefPath(pathname)
+    if (ref) {
+      const url = req.nextUrl.clone()
+      url.pathname = refToPath(ref)
+      return NextResponse.redirect(url, 308)
     }
-    try {
-      const title = normalizeBookParam(bookSlug)
-      const res = await fetch(`https://www.sefaria.org/api/v2/index/${encodeURIComponent(title)}`)
-      if (res.ok) {
-        const data = await res.json()
-        const category = (Array.isArray(data?.categories) ? data.categories[0] : data?.category) || 'texts'
-        const rewriteUrl = req.nextUrl.clone()
-        rewriteUrl.pathname = `/texts/${encodeURIComponent(String(category))}/${bookSlug}`
-        return NextResponse.rewrite(rewriteUrl)
-      }
-    } catch {}
-    return NextResponse.next()
-  }
-
-  // Pattern: /Book.Chapter (supports mixed formats like 1:1, 1:2, 1a, 2b, etc.)
-  const bookChapterMatch = pathname.match(/^\/([^\/.]+)\.([^\/.]+)\/?$/)
-  if (bookChapterMatch) {
-    const bookSlug = bookChapterMatch[1]
-    const chapter = bookChapterMatch[2]
-    if (RESERVED_TOP_LEVEL.has('/' + bookSlug)) {
-      return NextResponse.next()
-    }
-    try {
-      const title = normalizeBookParam(bookSlug)
-      const res = await fetch(`https://www.sefaria.org/api/v2/index/${encodeURIComponent(title)}`)
-      if (res.ok) {
-        const data = await res.json()
-        const category = (Array.isArray(data?.categories) ? data.categories[0] : data?.category) || 'texts'
-        const rewriteUrl = req.nextUrl.clone()
-        rewriteUrl.pathname = `/texts/${encodeURIComponent(String(category))}/${bookSlug}/${chapter}`
-        return NextResponse.rewrite(rewriteUrl)
-      }
-    } catch {}
-    return NextResponse.next()
   }
 
-  // Pattern: /Book.Chapter.Verse (supports mixed chapter formats like 1:1, 1:2, 1a, 2b, etc.)
-  const bookChapterVerseMatch = pathname.match(/^\/([^\/.]+)\.([^\/.]+)\.(\d+)\/?$/)
-  if (bookChapterVerseMatch) {
-    const bookSlug = bookChapterVerseMatch[1]
-    const chapter = bookChapterVerseMatch[2]
-    const verse = bookChapterVerseMatch[3]
-    if (RESERVED_TOP_LEVEL.has('/' + bookSlug)) {
+  // Rewrite short URLs to existing pages (URL stays short)
+  // Patterns: /Book, /Book.Chapter, /Book.Chapter.Verse, ranges like /Book.1.3-2.4,
+  // Talmud dapim like /Berakhot.2a.3 and commentary refs like /Rashi_on_Genesis.1.1.2
+  const shortMatch = pathname.match(/^\/([^\/]+)\/?$/)
+  if (shortMatch) {
+    const ref = parseRef(shortMatch[1])
+    if (!ref || RESERVED_TOP_LEVEL.has('/' + shortMatch[1].toLowerCase())) {
       return NextResponse.next()
     }
     try {
-      const title = normalizeBookParam(bookSlug)
-      const res = await fetch(`https://www.sefaria.org/api/v2/index/${encodeURIComponent(title)}`)
-      if (res.ok) {
-        const data = await res.json()
-        const category = (Array.isArray(data?.categories) ? data.categories[0] : data?.category) || 'texts'
+      const category = await lookupCategory(req, ref.book)
+      if (category) {
+        const bookSlug = formatRef({ ...ref, sections: [], toSections: [] }, 'url')
         const rewriteUrl = req.nextUrl.clone()
-        rewriteUrl.pathname = `/texts/${encodeURIComponent(String(category))}/${bookSlug}/${chapter}/${verse}`
+        // The chapter page reads the verse (or range) from the short URL itself
+        rewriteUrl.pathname = ref.sections.length > 0
+          ? `/texts/${encodeURIComponent(String(category))}/${bookSlug}/${ref.sections[0]}`
+          : `/texts/${encodeURIComponent(String(category))}/${bookSlug}`
         return NextResponse.rewrite(rewriteUrl)
       }
     } catch {}
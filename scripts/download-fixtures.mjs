@@ -0,0 +1,92 @@
+// Download an offline bundle of Sefaria data into public/fixtures/sefaria.
+//
+// Usage: node scripts/download-fixtures.mjs Genesis Exodus "Song of Songs"
+//
+// Always fetches the library index and today's calendars, then for every book
+// given on the command line its v2 index, the v3 text of each chapter or daf,
+// and the legacy (v1) text with commentary of each of their verses, which the
+// commentary panel reads. Texts are saved under the ref's URL form
+// ("Song_of_Songs.1", "Berakhot.2a.3"), which is what lib/data-source.ts looks up.
+// Run the app with NEXT_PUBLIC_SEFARIA_DATA_SOURCE=fixtures to use the bundle.
+
+import { mkdir, writeFile } from "node:fs/promises"
+import path from "node:path"
+
+const API = "https://www.sefaria.org/api"
+const OUT_DIR = path.join(process.cwd(), "public", "fixtures", "sefaria")
+
+// Address types numbered by folio side, and the first side of a Talmud
+// tractate (2a); see lib/section-navigation.ts
+const FOLIO_ADDRESS_TYPES = new Set(["Talmud", "Folio"])
+const FIRST_TALMUD_SIDE = 3
+
+// Parameters SefariaAPI.getTextWithCommentary sends (lib/sefaria-api.ts)
+const COMMENTARY_QUERY = "lang=en&lang2=en&commentary=1&context=1&pad=0&wrapLinks=1&wrapNamedEntities=1"
+
+// Number of verses (or segments) in a v3 texts response
+function verseCount(text) {
+  const lengths = (text?.versions ?? []).map(version => (Array.isArray(version.text) ? version.text.length : 0))
+  return Math.max(0, ...lengths)
+}
+
+// Top-level sections of a book as they appear in refs: 1, 2, 3... or 2a, 2b, 3a...
+function sections(schema) {
+  const count = schema?.lengths?.[0] ?? 0
+  const addressType = schema?.addressTypes?.[0]
+  if (!FOLIO_ADDRESS_TYPES.has(addressType)) {
+    return Array.from({ length: count }, (_, i) => String(i + 1))
+  }
+  const first = addressType === "Folio" ? 1 : FIRST_TALMUD_SIDE
+  const result = []
+  for (let side = first; side <= count; side++) {
+    result.push(`${Math.ceil(side / 2)}${side % 2 === 1 ? "a" : "b"}`)
+  }
+  return result
+}
+
+async function download(endpoint, file) {
+  const res = await fetch(`${API}/${endpoint}`)
+  if (!res.ok) throw new Error(`${endpoint}: HTTP ${res.status}`)
+  const data = await res.json()
+  const target = path.join(OUT_DIR, `${file}.json`)
+  await mkdir(path.dirname(target), { recursive: true })
+  await writeFile(target, JSON.stringify(data, null, 2) + "\n")
+  console.log(`saved ${path.relative(process.cwd(), target)}`)
+  return data
+}
+
+async function main() {
+  const books = process.argv.slice(2)
+
+  await download("index", "index")
+  await download("calendars", "calendars")
+
+  for (const book of books) {
+    // "Song_of_Songs" and "Song of Songs" are the same book
+    const title = book.replace(/_/g, " ").trim()
+    const index = await download(
+      `v2/index/${encodeURIComponent(title)}?with_content_counts=1&with_related_topics=1`,
+      `v2/index/${title}`
+    )
+    const chapters = sections(index?.schema)
+    if (chapters.length === 0) {
+      console.warn(`${title}: no chapter count in schema, skipping texts`)
+      continue
+    }
+    for (const chapter of chapters) {
+      const ref = `${title.replace(/\s+/g, "_")}.${chapter}`
+      const text = await download(
+        `v3/texts/${encodeURIComponent(ref)}?version=hebrew&version=translation`,
+        `v3/texts/${ref}`
+      )
+      for (let verse = 1; verse <= verseCount(text); verse++) {
+        await download(`texts/${encodeURIComponent(`${ref}.${verse}`)}?${COMMENTARY_QUERY}`, `texts/${ref}.${verse}`)
+      }
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})